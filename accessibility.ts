@@ -0,0 +1,142 @@
+
+import * as THREE from 'three';
+import { WeaponId } from './weapons';
+
+// Settings for players who can't rely on colour alone or who find flashing and
+// fast motion hard. A colour-vision profile swaps the threat materials, health
+// bars, base colours and explosion palettes for ones that stay apart under that
+// kind of colour blindness (built on the Okabe-Ito set). Shape cues draw an
+// outline per enemy type and around bullets, so threats read without colour at
+// all. Flash and motion caps tone down hit flashes, the damage overlay, nuke
+// glare, shake, slow motion and spark speeds. Everything here is visual; the
+// simulation and replays are the same with any combination.
+
+export type ColorVision = 'normal' | 'protanopia' | 'deuteranopia' | 'tritanopia';
+
+export type CueShape = 'circle' | 'triangle' | 'square' | 'diamond';
+
+export interface AccessibilitySettings {
+    colorVision: ColorVision;
+    shapeCues: boolean;
+    reducedMotion: boolean; // no shake, slow motion or shockwaves, and slower sparks
+    flashCap: number; // 0..1 on hit flashes, the damage overlay and nuke glare
+    particleMotion: number; // 0..1 on spark and particle-web speeds
+}
+
+export const defaultAccessibilitySettings = (): AccessibilitySettings => ({
+    colorVision: 'normal',
+    shapeCues: false,
+    reducedMotion: false,
+    flashCap: 1,
+    particleMotion: 1
+});
+
+export const A11Y = {
+    reducedParticleMotion: 0.4, // particleMotion ceiling under reduced motion
+    defaultCue: { shape: 'circle' as CueShape, radius: 2 }, // enemies without their own
+    bulletCueRadius: 1.1
+};
+
+export interface MaterialColors {
+    color: number;
+    emissive?: number;
+}
+
+export interface ColorPalette {
+    materials: Record<string, MaterialColors>; // by engine material key; others keep their own
+    explosions: Partial<Record<WeaponId, number[]>>;
+    baseHealthy: number;
+    baseBroken: number;
+    damageFlash: number;
+    cue: number;
+    bulletCue: number;
+}
+
+const NORMAL: ColorPalette = {
+    materials: {},
+    explosions: {},
+    baseHealthy: 0x22c55e,
+    baseBroken: 0xef4444,
+    damageFlash: 0xff2200,
+    cue: 0xffffff,
+    bulletCue: 0xfde047
+};
+
+// Red and green collapse together: threats split into orange and blue instead
+const RED_GREEN: ColorPalette = {
+    materials: {
+        enemyRedGlow: { color: 0xd55e00, emissive: 0x803800 },
+        enemyGreenGlow: { color: 0x56b4e9, emissive: 0x1d5f8a },
+        bossCore: { color: 0xe69f00, emissive: 0xe69f00 },
+        bullet: { color: 0xf0e442 },
+        hpFg: { color: 0xffffff },
+        fireball: { color: 0xfff7c2 }
+    },
+    explosions: {
+        normal: [0xe69f00, 0xd55e00],
+        big: [0x0072b2, 0x56b4e9],
+        nuke: [0xffffff, 0xf0e442, 0xfff7c2, 0xffffff],
+        guided: [0xcc79a7, 0xf5c9e0]
+    },
+    baseHealthy: 0x56b4e9,
+    baseBroken: 0xe69f00,
+    damageFlash: 0xe69f00,
+    cue: 0xffffff,
+    bulletCue: 0xf0e442
+};
+
+export const PALETTES: Record<ColorVision, ColorPalette> = {
+    normal: NORMAL,
+    deuteranopia: RED_GREEN,
+    // Reds also look dark, so the red threats move all the way to orange
+    protanopia: {
+        ...RED_GREEN,
+        materials: { ...RED_GREEN.materials, enemyRedGlow: { color: 0xe69f00, emissive: 0x8a5f00 } }
+    },
+    // Blue and green (and yellow and pink) collapse: keep red, move the rest apart
+    tritanopia: {
+        materials: {
+            enemyGreenGlow: { color: 0x00c8a0, emissive: 0x005c4a },
+            bullet: { color: 0xffffff },
+            hpFg: { color: 0xffffff },
+            fireball: { color: 0xffe0e0 }
+        },
+        explosions: {
+            nuke: [0xffffff, 0xff6b6b, 0xffe0e0, 0xffffff],
+            guided: [0xff6b9a, 0xffc2d4]
+        },
+        baseHealthy: 0x00c8a0,
+        baseBroken: 0xff3355,
+        damageFlash: 0xff2200,
+        cue: 0xffffff,
+        bulletCue: 0xff3355
+    }
+};
+
+export const isColorVision = (v: any): v is ColorVision => typeof v === 'string' && v in PALETTES;
+
+// Geometry key for a cue outline; the engine registers one per shape
+export const cueGeometryKey = (shape: CueShape) => `cue_${shape}`;
+
+// Unit-radius outline facing the camera, scaled per enemy
+export function cueGeometry(shape: CueShape): THREE.BufferGeometry {
+    switch (shape) {
+        case 'triangle': return new THREE.RingGeometry(0.8, 1, 3, 1, -Math.PI / 2); // point down, like the fighters
+        case 'square': return new THREE.RingGeometry(0.85, 1, 4, 1, Math.PI / 4);
+        case 'diamond': return new THREE.RingGeometry(0.85, 1, 4, 1, 0);
+        default: return new THREE.RingGeometry(0.88, 1, 32);
+    }
+}
+
+// Clamps and fills a partial settings object
+export function normalizeAccessibility(value: Partial<AccessibilitySettings> | undefined): AccessibilitySettings {
+    const s = { ...defaultAccessibilitySettings(), ...value };
+    const unit = (v: any, fallback: number) => Number.isFinite(v) ? Math.min(1, Math.max(0, v)) : fallback;
+    return {
+        colorVision: isColorVision(s.colorVision) ? s.colorVision : 'normal',
+        shapeCues: !!s.shapeCues,
+        reducedMotion: !!s.reducedMotion,
+        flashCap: unit(s.flashCap, 1),
+        particleMotion: unit(s.particleMotion, 1)
+    };
+}
@@ -0,0 +1,350 @@
+
+import { EngineEvents, EventBus } from './events';
+import { WeaponId } from './weapons';
+
+// Sound, synthesized on the fly with Web Audio so nothing is downloaded. The
+// engine owns one GameAudio and it listens to the engine's events: launches,
+// blasts, kills, enemy fire and hits each have a voice, panned by the x they
+// happened at. Overlapping blasts duck the mix instead of clipping it. Without
+// an AudioContext (headless, old browsers) every call is a no-op.
+
+export const AUDIO = {
+    maxVoices: 48, // further sounds are dropped until some finish
+    minGap: 0.03, // seconds before the same sound may start again
+    duckThreshold: 4, // blasts ringing at once before the mix ducks
+    duckFloor: 0.35,
+    rumblePerRadius: 0.05, // seconds of nuke rumble per unit of blast radius
+    minRumble: 2,
+    musicTempo: 96 // bpm
+};
+
+export interface AudioSettings {
+    master: number; // 0..1
+    music: number;
+    sfx: number;
+}
+
+export const defaultAudioSettings = (): AudioSettings => ({ master: 0.8, music: 0.5, sfx: 0.8 });
+
+export interface LaunchSound {
+    wave: OscillatorType;
+    from: number; // Hz, swept down to `to`
+    to: number;
+    duration: number; // seconds
+    noise: number; // 0..1 hiss mixed in
+    gain: number;
+}
+
+export interface BlastSound {
+    cutoff: number; // lowpass on the noise burst, Hz
+    body: number; // Hz of the thump under it
+    duration: number; // seconds at a radius of 10
+    gain: number;
+    rumble?: boolean; // long low roll whose length follows the blast radius
+}
+
+export interface EnemySound {
+    wave: OscillatorType;
+    pitch: number; // Hz of the death chirp; shots sit an octave up
+    duration: number;
+}
+
+export const WEAPON_SOUNDS: Record<WeaponId, { launch: LaunchSound, blast: BlastSound }> = {
+    normal: {
+        launch: { wave: 'square', from: 900, to: 300, duration: 0.12, noise: 0.3, gain: 0.12 },
+        blast: { cutoff: 2200, body: 90, duration: 0.35, gain: 0.5 }
+    },
+    big: {
+        launch: { wave: 'sawtooth', from: 420, to: 110, duration: 0.28, noise: 0.5, gain: 0.16 },
+        blast: { cutoff: 1200, body: 55, duration: 0.4, gain: 0.7 }
+    },
+    nuke: {
+        launch: { wave: 'sine', from: 180, to: 50, duration: 1.4, noise: 0.7, gain: 0.3 },
+        blast: { cutoff: 500, body: 35, duration: 0.6, gain: 1, rumble: true }
+    },
+    guided: {
+        launch: { wave: 'triangle', from: 1400, to: 700, duration: 0.18, noise: 0.15, gain: 0.12 },
+        blast: { cutoff: 3000, body: 120, duration: 0.3, gain: 0.45 }
+    }
+};
+
+export const ENEMY_SOUNDS: Record<string, EnemySound> = {
+    scout: { wave: 'square', pitch: 880, duration: 0.12 },
+    drone: { wave: 'triangle', pitch: 1200, duration: 0.08 },
+    fighter: { wave: 'sawtooth', pitch: 520, duration: 0.16 },
+    dread: { wave: 'sawtooth', pitch: 160, duration: 0.45 },
+    boss: { wave: 'sawtooth', pitch: 110, duration: 0.2 }
+};
+
+export function registerWeaponSound(id: WeaponId, sounds: { launch: LaunchSound, blast: BlastSound }) {
+    WEAPON_SOUNDS[id] = sounds;
+}
+
+export function registerEnemySound(id: string, sound: EnemySound) {
+    ENEMY_SOUNDS[id] = sound;
+}
+
+// A minor pentatonic over a four-bar bass line, A F C G
+const BASS = [45, 41, 48, 43];
+const SCALE = [0, 3, 5, 7, 10, 12, 15];
+const ARP = [0, 2, 4, 2, 5, 4, 2, 1, 0, 2, 4, 6, 5, 4, 2, 3];
+const midiHz = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+export class GameAudio {
+    ctx: AudioContext | null;
+    settings: AudioSettings;
+    private master: GainNode | null = null;
+    private sfx: GainNode | null = null;
+    private music: GainNode | null = null;
+    private duck: GainNode | null = null;
+    private noise: AudioBuffer | null = null;
+    private voices = 0;
+    private blasts: number[] = []; // end times of blasts still ringing
+    private lastStart = new Map<string, number>();
+    private musicOn = false;
+    private intensity = 0; // 1 during boss fights
+    private nextNote = 0;
+    private step = 0;
+    private unsubscribe: (() => void)[] = [];
+
+    constructor(ctx: AudioContext | null, settings: AudioSettings = defaultAudioSettings()) {
+        this.ctx = ctx;
+        this.settings = { ...settings };
+        if (!ctx) return;
+
+        // sfx -> duck -> master <- music; a compressor catches what ducking misses
+        const compressor = ctx.createDynamicsCompressor();
+        compressor.connect(ctx.destination);
+        this.master = ctx.createGain();
+        this.master.connect(compressor);
+        this.duck = ctx.createGain();
+        this.duck.connect(this.master);
+        this.sfx = ctx.createGain();
+        this.sfx.connect(this.duck);
+        this.music = ctx.createGain();
+        this.music.connect(this.duck);
+        this.applySettings();
+
+        const length = ctx.sampleRate * 2;
+        this.noise = ctx.createBuffer(1, length, ctx.sampleRate);
+        const data = this.noise.getChannelData(0);
+        for (let i = 0; i < length; i++) data[i] = Math.random() * 2 - 1;
+    }
+
+    // Browsers start contexts suspended until the first user gesture
+    unlock() {
+        if (this.ctx?.state === 'suspended') this.ctx.resume();
+    }
+
+    // Silences everything in flight, e.g. while paused; unlock() carries on
+    suspend() {
+        if (this.ctx?.state === 'running') this.ctx.suspend();
+    }
+
+    setSettings(settings: AudioSettings) {
+        this.settings = { ...settings };
+        this.applySettings();
+    }
+
+    private applySettings() {
+        if (!this.ctx) return;
+        const t = this.ctx.currentTime;
+        this.master!.gain.setTargetAtTime(this.settings.master, t, 0.02);
+        this.sfx!.gain.setTargetAtTime(this.settings.sfx, t, 0.02);
+        this.music!.gain.setTargetAtTime(this.settings.music * 0.4, t, 0.02);
+    }
+
+    // Subscribes to everything that makes a sound; arenaWidth maps x to pan
+    connect(events: EventBus<EngineEvents>, arenaWidth: () => number) {
+        const pan = (x: number) => Math.max(-1, Math.min(1, x / arenaWidth()));
+        this.unsubscribe.push(
+            events.on('missileFired', e => this.launch(e.weapon, pan(e.x))),
+            events.on('explosion', e => this.blast(e.weapon, pan(e.x), e.radius, e.crit)),
+            events.on('enemyKilled', e => this.enemyDeath(e.type, pan(e.x))),
+            events.on('enemyFired', e => this.enemyShot(e.boss ? 'boss' : e.source, pan(e.x))),
+            events.on('playerDamaged', e => this.hit(e.absorbed >= e.amount, pan(e.x))),
+            events.on('abilityUsed', e => this.sweep(pan(e.x))),
+            events.on('bossSpawned', () => { this.intensity = 1; }),
+            events.on('bossDefeated', e => { this.intensity = 0; this.blast('nuke', pan(e.x), 30, false); }),
+            events.on('waveStarted', () => this.setMusic(true)),
+            events.on('waveCleared', () => this.setMusic(false)),
+            events.on('gameOver', () => this.setMusic(false))
+        );
+    }
+
+    // Output chain for one sound, or null when muted, saturated or just played
+    private voice(key: string, pan: number): { out: AudioNode, t: number } | null {
+        const ctx = this.ctx;
+        if (!ctx || ctx.state !== 'running' || this.settings.master <= 0 || this.settings.sfx <= 0) return null;
+        if (this.voices >= AUDIO.maxVoices) return null;
+        const t = ctx.currentTime;
+        if (t - (this.lastStart.get(key) ?? -1) < AUDIO.minGap) return null;
+        this.lastStart.set(key, t);
+        const panner = ctx.createStereoPanner();
+        panner.pan.value = pan;
+        panner.connect(this.sfx!);
+        return { out: panner, t };
+    }
+
+    private track(source: AudioScheduledSourceNode, out: AudioNode) {
+        this.voices++;
+        source.onended = () => { this.voices--; out.disconnect(); };
+    }
+
+    private envelope(from: number, t: number, duration: number, out: AudioNode): GainNode {
+        const gain = this.ctx!.createGain();
+        gain.gain.setValueAtTime(from, t);
+        gain.gain.exponentialRampToValueAtTime(0.0001, t + duration);
+        gain.connect(out);
+        return gain;
+    }
+
+    private oscillator(wave: OscillatorType, from: number, to: number, t: number, duration: number) {
+        const osc = this.ctx!.createOscillator();
+        osc.type = wave;
+        osc.frequency.setValueAtTime(from, t);
+        osc.frequency.exponentialRampToValueAtTime(Math.max(1, to), t + duration);
+        osc.start(t);
+        osc.stop(t + duration);
+        return osc;
+    }
+
+    private tone(wave: OscillatorType, from: number, to: number, t: number, duration: number, level: number, out: AudioNode) {
+        const osc = this.oscillator(wave, from, to, t, duration);
+        osc.connect(this.envelope(level, t, duration, out));
+        return osc;
+    }
+
+    private hiss(cutoff: number, t: number, duration: number, level: number, out: AudioNode) {
+        const ctx = this.ctx!;
+        const src = ctx.createBufferSource();
+        src.buffer = this.noise;
+        src.loop = true;
+        const filter = ctx.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.frequency.setValueAtTime(cutoff, t);
+        filter.frequency.exponentialRampToValueAtTime(Math.max(40, cutoff * 0.1), t + duration);
+        src.connect(filter);
+        filter.connect(this.envelope(level, t, duration, out));
+        src.start(t, Math.random() * 1.5);
+        src.stop(t + duration);
+        return src;
+    }
+
+    launch(weapon: WeaponId, pan: number) {
+        const s = (WEAPON_SOUNDS[weapon] || WEAPON_SOUNDS.normal).launch;
+        const v = this.voice(`launch:${weapon}`, pan);
+        if (!v) return;
+        const osc = this.tone(s.wave, s.from, s.to, v.t, s.duration, s.gain, v.out);
+        if (s.noise > 0) this.hiss(4000, v.t, s.duration, s.gain * s.noise, v.out);
+        this.track(osc, v.out);
+    }
+
+    blast(weapon: WeaponId, pan: number, radius: number, crit: boolean) {
+        const s = (WEAPON_SOUNDS[weapon] || WEAPON_SOUNDS.normal).blast;
+        const v = this.voice(`blast:${weapon}`, pan);
+        if (!v) return;
+        const scale = Math.max(0.6, Math.min(2.5, radius / 10));
+        const duration = s.rumble ? Math.max(AUDIO.minRumble, radius * AUDIO.rumblePerRadius) : s.duration * scale;
+        const src = this.hiss(s.cutoff, v.t, duration, s.gain, v.out);
+        this.tone('sine', s.body * 2, s.body, v.t, Math.min(duration, 1.5), s.gain, v.out);
+        // A sub-bass roll under the nuke, swelling after the flash
+        if (s.rumble) {
+            const swell = this.ctx!.createGain();
+            swell.gain.setValueAtTime(0, v.t);
+            swell.gain.linearRampToValueAtTime(s.gain * 0.8, v.t + duration * 0.25);
+            swell.gain.linearRampToValueAtTime(0, v.t + duration);
+            swell.connect(v.out);
+            this.oscillator('sine', 40, 28, v.t, duration).connect(swell);
+        }
+        if (crit) this.tone('triangle', 2400, 1800, v.t, 0.15, s.gain * 0.3, v.out);
+        this.track(src, v.out);
+        this.addBlast(v.t + duration);
+    }
+
+    enemyDeath(type: string, pan: number) {
+        const s = ENEMY_SOUNDS[type] || ENEMY_SOUNDS.scout;
+        const v = this.voice(`death:${type}`, pan);
+        if (!v) return;
+        this.track(this.tone(s.wave, s.pitch, s.pitch * 0.25, v.t, s.duration, 0.15, v.out), v.out);
+    }
+
+    enemyShot(source: string, pan: number) {
+        const s = ENEMY_SOUNDS[source] || ENEMY_SOUNDS.scout;
+        const v = this.voice(`shot:${source}`, pan);
+        if (!v) return;
+        this.track(this.tone(s.wave, s.pitch * 2, s.pitch, v.t, 0.07, 0.06, v.out), v.out);
+    }
+
+    // Shielded hits zap; hits on the base thud
+    hit(shielded: boolean, pan: number) {
+        const v = this.voice(shielded ? 'hit:shield' : 'hit:base', pan);
+        if (!v) return;
+        const src = shielded
+            ? this.tone('sawtooth', 1800, 600, v.t, 0.15, 0.12, v.out)
+            : this.hiss(800, v.t, 0.3, 0.5, v.out);
+        if (!shielded) this.tone('sine', 120, 40, v.t, 0.3, 0.6, v.out);
+        this.track(src, v.out);
+    }
+
+    sweep(pan: number) {
+        const v = this.voice('ability', pan);
+        if (!v) return;
+        this.track(this.tone('triangle', 200, 1600, v.t, 0.5, 0.15, v.out), v.out);
+    }
+
+    // Ducks the whole mix while more than duckThreshold blasts overlap
+    private addBlast(end: number) {
+        this.blasts.push(end);
+        this.updateDuck();
+    }
+
+    private updateDuck() {
+        if (!this.ctx) return;
+        const t = this.ctx.currentTime;
+        this.blasts = this.blasts.filter(end => end > t);
+        const n = this.blasts.length;
+        const target = n > AUDIO.duckThreshold ? Math.max(AUDIO.duckFloor, AUDIO.duckThreshold / n) : 1;
+        this.duck!.gain.setTargetAtTime(target, t, n > AUDIO.duckThreshold ? 0.02 : 0.3);
+    }
+
+    setMusic(on: boolean) {
+        if (on && !this.musicOn && this.ctx) this.nextNote = this.ctx.currentTime + 0.1;
+        this.musicOn = on;
+        if (!on) this.intensity = 0;
+    }
+
+    // Called every frame: lets the duck recover and schedules music a little ahead
+    update() {
+        const ctx = this.ctx;
+        if (!ctx || ctx.state !== 'running') return;
+        if (this.blasts.length) this.updateDuck();
+        if (!this.musicOn || this.settings.music <= 0) return;
+        const stepTime = 60 / AUDIO.musicTempo / 4;
+        if (this.nextNote < ctx.currentTime) this.nextNote = ctx.currentTime + 0.05; // after a stall
+        while (this.nextNote < ctx.currentTime + 0.2) {
+            this.playStep(this.step, this.nextNote, stepTime);
+            this.nextNote += stepTime;
+            this.step = (this.step + 1) % 64;
+        }
+    }
+
+    private playStep(step: number, t: number, stepTime: number) {
+        const root = BASS[Math.floor(step / 16) % BASS.length];
+        const out = this.music!;
+        if (step % 8 === 0) this.tone('triangle', midiHz(root), midiHz(root), t, stepTime * 7, 0.5, out);
+        if (step % 2 === 0 || this.intensity > 0) {
+            const note = root + 24 + SCALE[ARP[step % ARP.length]];
+            this.tone('square', midiHz(note), midiHz(note), t, stepTime * 0.9, 0.08, out);
+        }
+        if (this.intensity > 0 && step % 4 === 2) this.hiss(9000, t, 0.05, 0.15, out);
+    }
+
+    dispose() {
+        this.unsubscribe.forEach(off => off());
+        this.unsubscribe = [];
+        this.musicOn = false;
+        this.ctx?.close();
+        this.ctx = null;
+    }
+}
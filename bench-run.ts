@@ -0,0 +1,12 @@
+import { LATE_STAGE_SCENARIO, runCollisionBenchmark } from './bench';
+
+// Entry point for the collision benchmark, headless in Node:
+//   npx tsx bench-run.ts
+// Prints the per-frame step cost brute force and with the spatial grid.
+
+const { bruteForce, grid, speedup } = runCollisionBenchmark(LATE_STAGE_SCENARIO);
+const { enemies, missiles, bullets, frames } = LATE_STAGE_SCENARIO;
+console.log(`late stage: ${enemies} enemies, ${missiles} missiles, ${bullets} bullets, ${frames} frames`);
+console.log(`brute force  ${bruteForce.msPerFrame.toFixed(2)} ms/frame  (${bruteForce.explosions} explosions)`);
+console.log(`spatial grid ${grid.msPerFrame.toFixed(2)} ms/frame  (${grid.explosions} explosions)`);
+console.log(`speedup      ${speedup.toFixed(1)}x`);
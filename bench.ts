@@ -0,0 +1,79 @@
+
+import * as THREE from 'three';
+import { EngineState } from './state';
+import { GameEngine } from './index';
+import { createHeadlessPlatform } from './platform';
+import { defaultGameState } from './save';
+
+// Late-stage collision load: stage 14 density (300 enemies) with a missile swarm,
+// a boss-sized bullet curtain and overlapping blast zones, held constant every
+// frame. Run once with the grid and once brute force to compare per-frame cost.
+
+export interface BenchScenario {
+    enemies: number;
+    missiles: number;
+    bullets: number;
+    frames: number;
+    seed: number;
+}
+
+export const LATE_STAGE_SCENARIO: BenchScenario = { enemies: 300, missiles: 100, bullets: 200, frames: 300, seed: 1337 };
+
+export interface BenchResult {
+    msPerFrame: number;
+    explosions: number;
+}
+
+function runScenario(useSpatialGrid: boolean, scenario: BenchScenario): BenchResult {
+    const state: EngineState = { ...defaultGameState(), wave: 14, health: 1e9 };
+    const engine: GameEngine = new GameEngine(
+        null,
+        (updates) => { engine.currentState = { ...engine.currentState, ...updates }; },
+        () => {},
+        () => {},
+        state,
+        createHeadlessPlatform()
+    );
+    engine.useSpatialGrid = useSpatialGrid;
+    engine.startStory(13, false, scenario.seed);
+    engine.enemiesToSpawn = 0;
+
+    // Spare the bench from visual particle work so it measures the queries:
+    // explosions only leave their blast zone behind
+    let explosions = 0;
+    engine.createExplosion = (pos: THREE.Vector3) => {
+        explosions++;
+        engine.particles.push({ age: 0, maxAge: 1, type: 'expl', center: pos.clone(), radius: 6 });
+        engine.checkDamage(pos, 6, 2);
+    };
+
+    const rng = engine.rng;
+    const topUp = () => {
+        while (engine.enemies.length < scenario.enemies) {
+            engine.spawnEnemy(undefined, new THREE.Vector3(rng.range(-30, 30), rng.range(-30, 45), 0));
+        }
+        while (engine.missiles.filter(m => m.userData.type === 'normal').length < scenario.missiles) {
+            engine.setAim(rng.range(-35, 35), rng.range(-20, 45));
+            engine.spawnMissile('normal');
+        }
+        while (engine.enemyBullets.length < scenario.bullets) {
+            engine.fireEnemyBullet(new THREE.Vector3(rng.range(-33, 33), rng.range(-30, 40), 0), new THREE.Vector3(rng.range(-6, 6), -8, 0));
+        }
+    };
+
+    let elapsed = 0;
+    for (let f = 0; f < scenario.frames; f++) {
+        topUp();
+        const start = performance.now();
+        engine.step();
+        elapsed += performance.now() - start;
+    }
+    engine.dispose();
+    return { msPerFrame: elapsed / scenario.frames, explosions };
+}
+
+export function runCollisionBenchmark(scenario: BenchScenario = LATE_STAGE_SCENARIO) {
+    const bruteForce = runScenario(false, scenario);
+    const grid = runScenario(true, scenario);
+    return { bruteForce, grid, speedup: bruteForce.msPerFrame / grid.msPerFrame };
+}
@@ -0,0 +1,207 @@
+
+import * as THREE from 'three';
+import { Vec3Tuple } from './enemies';
+
+// Boss definitions. A boss is a mesh built from parts, a list of HP-threshold
+// phases (each with its own movement and attacks) and optional destructible parts
+// that take their attacks with them when shot off.
+
+export type BossMovement =
+    // Strafe, glide back to centre, hold, repeat (the original mothership loop)
+    | { type: 'patrol', amplitude: number, speed: number, strafeTime: number, centerTime: number, holdTime: number }
+    | { type: 'strafe', amplitude: number, speed: number }
+    | { type: 'hover' }
+    // Follow the player's aim point along x
+    | { type: 'chase', speed: number };
+
+export type BossAttack =
+    | { type: 'fan', interval: number, count: number, spread: number, speed: number, from?: string }
+    | { type: 'spiral', interval: number, arms: number, speed: number, turn: number, from?: string }
+    | { type: 'aimed', interval: number, count: number, spread: number, speed: number, from?: string }
+    | { type: 'summon', interval: number, enemy: string, count: number, max: number };
+
+export interface BossPhase {
+    name: string;
+    hpThreshold: number; // phase starts once hp / maxHp drops to this
+    movement: BossMovement;
+    attacks: BossAttack[];
+}
+
+export interface BossPartDef {
+    id: string;
+    geometry: string;
+    material: string;
+    position?: Vec3Tuple;
+    rotation?: Vec3Tuple;
+    spin?: [number, number]; // rad/sec around y, z
+    // Destructible parts only
+    hpFraction?: number; // of the boss' max hp
+    hitRadius?: number;
+    reward?: number;
+}
+
+export interface BossDef {
+    id: string;
+    name: string;
+    parts: BossPartDef[];
+    scale?: number;
+    light?: { color: number, intensity: number, distance: number };
+    hitRadius: number; // explosion reach beyond the blast radius
+    contactRadius: number; // missile proximity fuse beyond its own hit distance
+    hoverY: number;
+    entrySpeed: number;
+    reward: number;
+    phases: BossPhase[];
+}
+
+// A part of the boss in play; destructible ones carry their own hp
+export interface BossPart {
+    def: BossPartDef;
+    mesh: THREE.Mesh;
+    hp: number;
+    maxHp: number; // 0 for parts that can't be shot off
+    destroyed: boolean;
+}
+
+export type BossMoveState = 'strafe' | 'centering' | 'holding'; // patrol's loop
+
+export interface ActiveBoss {
+    def: BossDef;
+    mesh: THREE.Group;
+    hp: number;
+    maxHp: number;
+    parts: BossPart[];
+    state: 'entering' | 'fighting';
+    phase: number; // index into def.phases
+    attackTimers: number[]; // seconds to the next shot, per attack of the phase
+    spiralAngle: number;
+    moveState: BossMoveState;
+    moveTimer: number;
+}
+
+export interface BossStatus {
+    name: string;
+    hp: number;
+    maxHp: number;
+    phase: number;
+    phaseCount: number;
+    phaseName: string;
+}
+
+const mothershipHull: BossPartDef[] = [
+    { id: 'hull', geometry: 'bossMain', material: 'bossHull', rotation: [Math.PI/2, 0, 0] },
+    { id: 'wings', geometry: 'bossWing', material: 'bossHull' },
+    { id: 'core', geometry: 'bossCore', material: 'bossCore', spin: [1, 0.5] }
+];
+
+const cannons = (hpFraction: number): BossPartDef[] => [
+    { id: 'cannonL', geometry: 'bossCannon', material: 'enemyGrey', position: [-3, -2, 2], rotation: [Math.PI/2, 0, 0], hpFraction, hitRadius: 3, reward: 150 },
+    { id: 'cannonR', geometry: 'bossCannon', material: 'enemyGrey', position: [3, -2, 2], rotation: [Math.PI/2, 0, 0], hpFraction, hitRadius: 3, reward: 150 }
+];
+
+const patrol: BossMovement = { type: 'patrol', amplitude: 30, speed: 0.8, strafeTime: 10, centerTime: 3, holdTime: 4 };
+
+export const BOSS_DEFS: Record<string, BossDef> = {
+    mothership: {
+        id: 'mothership',
+        name: 'VOID MOTHERSHIP',
+        parts: [...mothershipHull, ...cannons(0.1)],
+        light: { color: 0xff0000, intensity: 1.5, distance: 30 },
+        hitRadius: 10, contactRadius: 6, hoverY: 12, entrySpeed: 10,
+        reward: 1000,
+        phases: [
+            {
+                name: 'ASSAULT', hpThreshold: 1, movement: patrol,
+                attacks: [{ type: 'fan', interval: 1.5, count: 5, spread: 0.2, speed: 8 }]
+            },
+            {
+                name: 'OVERDRIVE', hpThreshold: 0.5, movement: { ...patrol, speed: 1.2 },
+                attacks: [
+                    { type: 'fan', interval: 1.5, count: 5, spread: 0.2, speed: 8 },
+                    { type: 'aimed', interval: 2.2, count: 1, spread: 0, speed: 12, from: 'cannonL' },
+                    { type: 'aimed', interval: 2.2, count: 1, spread: 0, speed: 12, from: 'cannonR' }
+                ]
+            }
+        ]
+    },
+    warden: {
+        id: 'warden',
+        name: 'CRIMSON WARDEN',
+        parts: [
+            { id: 'hull', geometry: 'bossMain', material: 'enemyBlack', rotation: [Math.PI/2, 0, 0] },
+            { id: 'wings', geometry: 'bossWing', material: 'enemyBlack' },
+            { id: 'core', geometry: 'bossCore', material: 'bossCore', spin: [2, 1] },
+            ...cannons(0.08)
+        ],
+        light: { color: 0xff2200, intensity: 2, distance: 35 },
+        hitRadius: 10, contactRadius: 6, hoverY: 14, entrySpeed: 12,
+        reward: 2500,
+        phases: [
+            {
+                name: 'SPIRAL', hpThreshold: 1, movement: { type: 'strafe', amplitude: 25, speed: 0.6 },
+                attacks: [{ type: 'spiral', interval: 0.25, arms: 3, speed: 7, turn: 0.35 }]
+            },
+            {
+                name: 'BROOD', hpThreshold: 0.6, movement: { type: 'strafe', amplitude: 28, speed: 0.9 },
+                attacks: [
+                    { type: 'spiral', interval: 0.3, arms: 3, speed: 7, turn: 0.35 },
+                    { type: 'summon', interval: 6, enemy: 'drone', count: 3, max: 12 }
+                ]
+            },
+            {
+                name: 'LAST STAND', hpThreshold: 0.25, movement: { type: 'hover' },
+                attacks: [
+                    { type: 'spiral', interval: 0.18, arms: 4, speed: 9, turn: 0.25 },
+                    { type: 'aimed', interval: 1.5, count: 3, spread: 0.15, speed: 12, from: 'cannonL' },
+                    { type: 'aimed', interval: 1.5, count: 3, spread: 0.15, speed: 12, from: 'cannonR' }
+                ]
+            }
+        ]
+    },
+    overlord: {
+        id: 'overlord',
+        name: 'VOID OVERLORD',
+        parts: [...mothershipHull, ...cannons(0.05)],
+        scale: 1.4,
+        light: { color: 0xff0000, intensity: 3, distance: 45 },
+        hitRadius: 14, contactRadius: 9, hoverY: 14, entrySpeed: 8,
+        reward: 5000,
+        phases: [
+            {
+                name: 'BARRAGE', hpThreshold: 1, movement: patrol,
+                attacks: [
+                    { type: 'fan', interval: 1.5, count: 7, spread: 0.18, speed: 8 },
+                    { type: 'aimed', interval: 2, count: 1, spread: 0, speed: 12, from: 'cannonL' },
+                    { type: 'aimed', interval: 2, count: 1, spread: 0, speed: 12, from: 'cannonR' }
+                ]
+            },
+            {
+                name: 'CARRIER', hpThreshold: 0.66, movement: { type: 'strafe', amplitude: 26, speed: 0.7 },
+                attacks: [
+                    { type: 'spiral', interval: 0.3, arms: 4, speed: 7, turn: 0.3 },
+                    { type: 'summon', interval: 5, enemy: 'fighter', count: 4, max: 16 }
+                ]
+            },
+            {
+                name: 'ANNIHILATION', hpThreshold: 0.33, movement: { type: 'chase', speed: 10 },
+                attacks: [
+                    { type: 'fan', interval: 1.2, count: 9, spread: 0.16, speed: 9 },
+                    { type: 'spiral', interval: 0.22, arms: 5, speed: 8, turn: 0.2 },
+                    { type: 'aimed', interval: 1.2, count: 3, spread: 0.12, speed: 14, from: 'cannonL' },
+                    { type: 'aimed', interval: 1.2, count: 3, spread: 0.12, speed: 14, from: 'cannonR' }
+                ]
+            }
+        ]
+    }
+};
+
+export function registerBoss(def: BossDef) {
+    BOSS_DEFS[def.id] = def;
+}
+
+// Phase index for the current hp fraction; phases are ordered by falling threshold
+export function bossPhaseFor(def: BossDef, hpFraction: number): number {
+    let index = 0;
+    def.phases.forEach((p, i) => { if (hpFraction <= p.hpThreshold) index = i; });
+    return index;
+}
@@ -0,0 +1,195 @@
+
+import { STAGES, StageConfig } from '../types';
+import { ENEMY_DEFS } from './enemies';
+import { BOSS_DEFS } from './bosses';
+
+// Versioned campaign format. Times are in seconds, arenaWidth is the half-width
+// of the playfield (barriers sit at ±arenaWidth). A stage may combine a random
+// wave, a scripted timeline and a boss with escorts; it clears once every source
+// is exhausted and the field is empty.
+
+export const CAMPAIGN_VERSION = 1;
+export const DEFAULT_ARENA_WIDTH = 35;
+
+export interface TimelineEntry {
+    at: number;
+    enemy: string;
+    count?: number;
+    x?: number; // centre of the group, random when omitted
+    spacing?: number;
+}
+
+export interface StageBoss {
+    id: string;
+    hp: number;
+    at?: number;
+    escorts?: { enemy?: string, count: number, interval: number };
+}
+
+export interface StageDef {
+    name?: string;
+    type: 'wave' | 'boss';
+    difficulty: number;
+    arenaWidth: number;
+    wave?: { count: number, interval: number };
+    timeline?: TimelineEntry[];
+    boss?: StageBoss;
+    rewards?: { money?: number };
+    isSide?: boolean;
+    sidePath?: StageDef;
+}
+
+export interface Campaign {
+    version: number;
+    id: string;
+    name: string;
+    stages: StageDef[];
+}
+
+export class CampaignError extends Error {
+    errors: string[];
+    constructor(errors: string[]) {
+        super(`Invalid campaign:\n${errors.join('\n')}`);
+        this.name = 'CampaignError';
+        this.errors = errors;
+    }
+}
+
+const STAGE_KEYS = ['name', 'type', 'difficulty', 'arenaWidth', 'wave', 'timeline', 'boss', 'rewards', 'isSide', 'sidePath'];
+
+const isObj = (v: any) => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNum = (v: any) => typeof v === 'number' && isFinite(v);
+const isCount = (v: any) => Number.isInteger(v) && v > 0;
+
+function checkKeys(obj: any, allowed: string[], path: string, errors: string[]) {
+    Object.keys(obj).forEach(k => {
+        if (!allowed.includes(k)) errors.push(`${path}.${k}: unknown field`);
+    });
+}
+
+function validateStage(stage: any, path: string, errors: string[], allowSide: boolean) {
+    if (!isObj(stage)) { errors.push(`${path}: must be an object`); return; }
+    checkKeys(stage, STAGE_KEYS, path, errors);
+
+    if (stage.type !== 'wave' && stage.type !== 'boss') errors.push(`${path}.type: must be 'wave' or 'boss'`);
+    if (stage.difficulty !== undefined && !(Number.isInteger(stage.difficulty) && stage.difficulty >= 0)) errors.push(`${path}.difficulty: must be an integer >= 0`);
+    if (stage.arenaWidth !== undefined && !(isNum(stage.arenaWidth) && stage.arenaWidth >= 10 && stage.arenaWidth <= 100)) errors.push(`${path}.arenaWidth: must be between 10 and 100`);
+
+    if (stage.wave !== undefined) {
+        if (!isObj(stage.wave)) errors.push(`${path}.wave: must be an object`);
+        else {
+            checkKeys(stage.wave, ['count', 'interval'], `${path}.wave`, errors);
+            if (!isCount(stage.wave.count)) errors.push(`${path}.wave.count: must be a positive integer`);
+            if (!(isNum(stage.wave.interval) && stage.wave.interval > 0)) errors.push(`${path}.wave.interval: must be a number of seconds > 0`);
+        }
+    }
+
+    if (stage.timeline !== undefined) {
+        if (!Array.isArray(stage.timeline)) errors.push(`${path}.timeline: must be an array`);
+        else stage.timeline.forEach((t: any, i: number) => {
+            const tp = `${path}.timeline[${i}]`;
+            if (!isObj(t)) { errors.push(`${tp}: must be an object`); return; }
+            checkKeys(t, ['at', 'enemy', 'count', 'x', 'spacing'], tp, errors);
+            if (!(isNum(t.at) && t.at >= 0)) errors.push(`${tp}.at: must be a number of seconds >= 0`);
+            if (!ENEMY_DEFS[t.enemy]) errors.push(`${tp}.enemy: unknown enemy '${t.enemy}'`);
+            if (t.count !== undefined && !isCount(t.count)) errors.push(`${tp}.count: must be a positive integer`);
+            if (t.x !== undefined && !isNum(t.x)) errors.push(`${tp}.x: must be a number`);
+            if (t.spacing !== undefined && !isNum(t.spacing)) errors.push(`${tp}.spacing: must be a number`);
+        });
+    }
+
+    if (stage.boss !== undefined) {
+        const b = stage.boss;
+        if (!isObj(b)) errors.push(`${path}.boss: must be an object`);
+        else {
+            checkKeys(b, ['id', 'hp', 'at', 'escorts'], `${path}.boss`, errors);
+            if (!BOSS_DEFS[b.id]) errors.push(`${path}.boss.id: unknown boss '${b.id}'`);
+            if (!(isNum(b.hp) && b.hp > 0)) errors.push(`${path}.boss.hp: must be a number > 0`);
+            if (b.at !== undefined && !(isNum(b.at) && b.at >= 0)) errors.push(`${path}.boss.at: must be a number of seconds >= 0`);
+            if (b.escorts !== undefined) {
+                const e = b.escorts;
+                if (!isObj(e)) errors.push(`${path}.boss.escorts: must be an object`);
+                else {
+                    checkKeys(e, ['enemy', 'count', 'interval'], `${path}.boss.escorts`, errors);
+                    if (e.enemy !== undefined && !ENEMY_DEFS[e.enemy]) errors.push(`${path}.boss.escorts.enemy: unknown enemy '${e.enemy}'`);
+                    if (!isCount(e.count)) errors.push(`${path}.boss.escorts.count: must be a positive integer`);
+                    if (!(isNum(e.interval) && e.interval > 0)) errors.push(`${path}.boss.escorts.interval: must be a number of seconds > 0`);
+                }
+            }
+        }
+    }
+
+    if (stage.type === 'wave' && !stage.wave && !stage.timeline) errors.push(`${path}: a 'wave' stage needs a wave or a timeline`);
+    if (stage.type === 'boss' && !stage.boss) errors.push(`${path}: a 'boss' stage needs a boss`);
+
+    if (stage.rewards !== undefined) {
+        if (!isObj(stage.rewards)) errors.push(`${path}.rewards: must be an object`);
+        else {
+            checkKeys(stage.rewards, ['money'], `${path}.rewards`, errors);
+            if (stage.rewards.money !== undefined && !(isNum(stage.rewards.money) && stage.rewards.money >= 0)) errors.push(`${path}.rewards.money: must be a number >= 0`);
+        }
+    }
+
+    if (stage.sidePath !== undefined) {
+        if (!allowSide) errors.push(`${path}.sidePath: side paths cannot branch again`);
+        else validateStage(stage.sidePath, `${path}.sidePath`, errors, false);
+    }
+}
+
+// Returns every problem found; an empty list means the campaign is loadable
+export function validateCampaign(data: any): string[] {
+    const errors: string[] = [];
+    if (!isObj(data)) return ['campaign: must be an object'];
+    checkKeys(data, ['version', 'id', 'name', 'stages'], 'campaign', errors);
+
+    if (data.version !== CAMPAIGN_VERSION) errors.push(`campaign.version: expected ${CAMPAIGN_VERSION}, got ${JSON.stringify(data.version)}`);
+    if (typeof data.id !== 'string' || !data.id) errors.push('campaign.id: must be a non-empty string');
+    if (typeof data.name !== 'string' || !data.name) errors.push('campaign.name: must be a non-empty string');
+    if (!Array.isArray(data.stages) || !data.stages.length) errors.push('campaign.stages: must be a non-empty array');
+    else data.stages.forEach((s: any, i: number) => validateStage(s, `campaign.stages[${i}]`, errors, true));
+
+    return errors;
+}
+
+function withDefaults(stage: any): StageDef {
+    return {
+        ...stage,
+        difficulty: stage.difficulty ?? 0,
+        arenaWidth: stage.arenaWidth ?? DEFAULT_ARENA_WIDTH,
+        sidePath: stage.sidePath ? { ...withDefaults(stage.sidePath), isSide: true } : undefined
+    };
+}
+
+export function parseCampaign(input: string | object): Campaign {
+    let data: any = input;
+    if (typeof input === 'string') {
+        try { data = JSON.parse(input); }
+        catch (e: any) { throw new CampaignError([`campaign: not valid JSON (${e.message})`]); }
+    }
+    const errors = validateCampaign(data);
+    if (errors.length) throw new CampaignError(errors);
+    return { ...data, stages: data.stages.map(withDefaults) };
+}
+
+// The built-in STAGES table, translated: freq was counted in 60 Hz frames
+export function campaignFromStages(stages: StageConfig[], id: string = 'main', name: string = 'Main Campaign'): Campaign {
+    const convert = (s: StageConfig, index: number): StageDef => {
+        const stage: StageDef = {
+            type: s.type,
+            difficulty: s.difficulty || 0,
+            arenaWidth: DEFAULT_ARENA_WIDTH,
+            isSide: s.isSide || undefined
+        };
+        if (s.type === 'wave') {
+            stage.wave = { count: s.count || 5, interval: (s.freq || 100) / 60 };
+        } else {
+            const bossId = s.isSide ? 'warden' : index === stages.length - 1 ? 'overlord' : 'mothership';
+            stage.boss = { id: bossId, hp: s.hp || 500 };
+        }
+        if (s.sidePath) stage.sidePath = convert(s.sidePath, index);
+        return stage;
+    };
+    return { version: CAMPAIGN_VERSION, id, name, stages: stages.map(convert) };
+}
+
+export const DEFAULT_CAMPAIGN: Campaign = campaignFromStages(STAGES);
@@ -0,0 +1,88 @@
+
+import { EngineState } from './state';
+import { WeaponId } from './weapons';
+
+// Player classes as data: which weapons a class can fire and regenerate, the
+// passive perks folded into the weapon numbers, and an active ability on a
+// cooldown. Licenses are bought in tier order; a class never downgrades.
+
+export interface ClassPerks {
+    regenRate?: number; // multiplier on ammo regen speed
+    blastRadius?: number; // multiplier on every blast radius
+    damage?: number; // multiplier on every blast's damage
+    shieldHp?: number; // extra base shield capacity
+}
+
+export type ClassAbility =
+    | { type: 'salvo', weapon: WeaponId, count: number, spread: number, cooldown: number } // free fan of missiles at the cursor
+    | { type: 'emp', cooldown: number } // wipes enemy fire and strips enemy shields
+    | { type: 'overdrive', duration: number, regenRate: number, cooldown: number }; // temporary regen boost
+
+export interface AbilityStatus {
+    type: ClassAbility['type'];
+    ready: boolean;
+    cooldown: number;
+    cooldownLeft: number; // seconds, one decimal
+    activeLeft: number; // overdrive time left
+}
+
+export interface ClassDef {
+    id: string;
+    name: string;
+    description: string;
+    tier: number;
+    price: number; // license cost; 0 for the starting class
+    weapons: WeaponId[]; // unlocked (fireable and regenerating) weapons
+    perks: ClassPerks;
+    ability?: ClassAbility;
+}
+
+export const DEFAULT_CLASS = 'c';
+
+export const CLASS_DEFS: Record<string, ClassDef> = {
+    c: {
+        id: 'c',
+        name: 'Class C',
+        description: 'Standard and guided missiles',
+        tier: 0,
+        price: 0,
+        weapons: ['normal', 'guided'],
+        perks: {},
+        ability: { type: 'salvo', weapon: 'normal', count: 5, spread: 4, cooldown: 20 }
+    },
+    b: {
+        id: 'b',
+        name: 'Class B',
+        description: 'Unlocks Heavy Missiles; blasts 15% wider',
+        tier: 1,
+        price: 500,
+        weapons: ['normal', 'big', 'guided'],
+        perks: { blastRadius: 1.15 },
+        ability: { type: 'emp', cooldown: 30 }
+    },
+    a: {
+        id: 'a',
+        name: 'Class A',
+        description: 'Unlocks Nukes; faster regen and a stronger shield',
+        tier: 2,
+        price: 2000,
+        weapons: ['normal', 'big', 'nuke', 'guided'],
+        perks: { regenRate: 1.25, shieldHp: 25 },
+        ability: { type: 'overdrive', duration: 8, regenRate: 3, cooldown: 60 }
+    }
+};
+
+export function registerClass(def: ClassDef) {
+    CLASS_DEFS[def.id] = def;
+}
+
+export const classDef = (id: string) => CLASS_DEFS[id] || CLASS_DEFS[DEFAULT_CLASS];
+
+export const classHasWeapon = (id: string, weapon: WeaponId) => classDef(id).weapons.includes(weapon);
+
+// Returns the state changes, or null when the license isn't an upgrade or isn't affordable
+export function purchaseClass(state: EngineState, id: string): Pick<EngineState, 'money' | 'playerClass'> | null {
+    const def = CLASS_DEFS[id];
+    if (!def || def.tier <= classDef(state.playerClass).tier || state.money < def.price) return null;
+    return { money: state.money - def.price, playerClass: id };
+}
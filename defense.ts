@@ -0,0 +1,58 @@
+
+// The defended base: a row of segments along the bottom edge, each with its own
+// hp, behind a shield that recharges once it has gone a while without a hit.
+// Whatever crosses the line damages the segment under it; once a segment falls,
+// hits at its x spill over to the nearest one still standing. The run is lost
+// when every segment is down. GameState.health mirrors the total as a percentage.
+
+export const DEFENSE = {
+    segments: 5,
+    segmentHp: 20, // five segments add up to the old 100 health
+    shieldMax: 30,
+    shieldRechargeDelay: 3, // seconds without a hit before recharging
+    shieldRechargeRate: 8, // per second
+    lineY: -35, // crossing this damages the base
+    viewY: -19.5, // where the segments are drawn, along the bottom of the view
+    // Feedback (visual only, never read by the simulation)
+    shakePerDamage: 0.06,
+    maxShake: 1.5,
+    shakeDecay: 4, // per second
+    flashPerDamage: 0.04,
+    flashDecay: 3
+};
+
+export interface DefenseStatus {
+    segments: { hp: number, maxHp: number }[];
+    shield: number;
+    shieldMax: number;
+}
+
+export function newSegments(count: number = DEFENSE.segments, hp: number = DEFENSE.segmentHp) {
+    return Array.from({ length: count }, () => ({ hp, maxHp: hp }));
+}
+
+// Segments split the arena [-arenaWidth, arenaWidth] into equal slices
+export function segmentIndexAt(x: number, count: number, arenaWidth: number): number {
+    const t = (x + arenaWidth) / (arenaWidth * 2);
+    return Math.min(count - 1, Math.max(0, Math.floor(t * count)));
+}
+
+export function segmentCenter(index: number, count: number, arenaWidth: number): number {
+    return -arenaWidth + (index + 0.5) * (arenaWidth * 2 / count);
+}
+
+// The segment that takes a hit at `index`: itself, or the nearest one standing
+export function hitSegment(segments: { hp: number }[], index: number): number {
+    if (segments[index].hp > 0) return index;
+    for (let d = 1; d < segments.length; d++) {
+        if (index - d >= 0 && segments[index - d].hp > 0) return index - d;
+        if (index + d < segments.length && segments[index + d].hp > 0) return index + d;
+    }
+    return -1;
+}
+
+export function basePercent(segments: { hp: number, maxHp: number }[]): number {
+    const hp = segments.reduce((sum, s) => sum + s.hp, 0);
+    const max = segments.reduce((sum, s) => sum + s.maxHp, 0);
+    return max ? Math.ceil((hp / max) * 100) : 0;
+}
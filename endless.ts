@@ -0,0 +1,111 @@
+
+import { EngineStorage } from './platform';
+
+// Endless survival: difficulty is a function of time survived instead of a stage
+// table. Spawn rate, enemy mix and enemy stats ramp continuously and a boss drops
+// in every `bossEvery` seconds.
+
+export const ENDLESS = {
+    baseInterval: 1.5, // seconds between spawns at t=0
+    minInterval: 0.12,
+    intervalHalfLife: 150, // spawn interval halves every 150s
+    // Stage difficulty (enemy mix/behaviours) reached at these times
+    difficultyAt: [0, 45, 120, 240],
+    hpPerMinute: 0.3,
+    speedPerMinute: 0.04,
+    maxSpeedMult: 2,
+    bossEvery: 180,
+    bossRotation: ['mothership', 'warden', 'overlord'],
+    bossBaseHp: 800,
+    bossHpGrowth: 1.8,
+    bossSpawnSlowdown: 2, // regular spawns slow down while a boss is up
+    pointsPerSecond: 10
+};
+
+export interface EndlessRun {
+    time: number;
+    kills: number;
+    killScore: number;
+    spawnTimer: number;
+    nextBoss: number;
+    bosses: number;
+}
+
+export interface EndlessStatus {
+    time: number;
+    kills: number;
+    score: number;
+    difficulty: number;
+}
+
+export function newEndlessRun(): EndlessRun {
+    return { time: 0, kills: 0, killScore: 0, spawnTimer: 0, nextBoss: ENDLESS.bossEvery, bosses: 0 };
+}
+
+export function endlessSpawnInterval(time: number): number {
+    return Math.max(ENDLESS.minInterval, ENDLESS.baseInterval * Math.pow(0.5, time / ENDLESS.intervalHalfLife));
+}
+
+export function endlessDifficulty(time: number): number {
+    let level = 0;
+    ENDLESS.difficultyAt.forEach((t, i) => { if (time >= t) level = i; });
+    return level;
+}
+
+export function endlessScale(time: number) {
+    const minutes = time / 60;
+    return {
+        hp: 1 + minutes * ENDLESS.hpPerMinute,
+        speed: Math.min(ENDLESS.maxSpeedMult, 1 + minutes * ENDLESS.speedPerMinute)
+    };
+}
+
+export function endlessBossHp(index: number): number {
+    return Math.round(ENDLESS.bossBaseHp * Math.pow(ENDLESS.bossHpGrowth, index));
+}
+
+export function endlessScore(run: EndlessRun): number {
+    return run.killScore + Math.floor(run.time) * ENDLESS.pointsPerSecond;
+}
+
+// --- LEADERBOARD ---
+
+export const LEADERBOARD_KEY = 'missile_fun_endless_scores_v1';
+export const LEADERBOARD_SIZE = 10;
+
+export interface ScoreEntry {
+    score: number;
+    time: number;
+    kills: number;
+    date: number;
+}
+
+const isScoreEntry = (v: any): v is ScoreEntry => typeof v === 'object' && v !== null
+    && ['score', 'time', 'kills', 'date'].every(k => Number.isFinite(v[k]));
+
+// Entries that aren't whole ScoreEntries (old or hand-edited tables) are dropped
+export function loadLeaderboard(storage: EngineStorage): ScoreEntry[] {
+    try {
+        const saved = storage.getItem(LEADERBOARD_KEY);
+        const board = saved ? JSON.parse(saved) : [];
+        return Array.isArray(board) ? board.filter(isScoreEntry).slice(0, LEADERBOARD_SIZE) : [];
+    } catch (e) {
+        return [];
+    }
+}
+
+// Adds the run to the table and stores it. A failed write (full or blocked
+// storage) still returns the new table, so it can stay up for this session.
+// rank is 1-based, or null when the run didn't make the table.
+export function submitScore(storage: EngineStorage, board: ScoreEntry[], entry: ScoreEntry): { board: ScoreEntry[], rank: number | null } {
+    const next = [...board, entry]
+        .sort((a, b) => b.score - a.score || b.time - a.time)
+        .slice(0, LEADERBOARD_SIZE);
+    try {
+        storage.setItem(LEADERBOARD_KEY, JSON.stringify(next));
+    } catch (e) {
+        // Kept in memory only
+    }
+    const rank = next.indexOf(entry);
+    return { board: next, rank: rank === -1 ? null : rank + 1 };
+}
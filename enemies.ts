@@ -0,0 +1,143 @@
+
+import { Rng } from './rng';
+import { CueShape } from './accessibility';
+
+// Enemy archetypes as data. spawnEnemy builds the mesh from `parts` (keys into the
+// engine's geometries/materials), scales stats with the wave and picks a type by
+// the per-difficulty spawn weights.
+
+export type Vec3Tuple = [number, number, number];
+
+export interface EnemyPart {
+    geometry: string;
+    material: string;
+    position?: Vec3Tuple;
+    lookAt?: Vec3Tuple;
+    rotation?: Vec3Tuple; // added after lookAt
+}
+
+// Movement/attack modifiers layered on the straight-down flight. minDifficulty gates
+// a behaviour to harder stages so the same archetype plays differently later on.
+export type EnemyBehaviour =
+    | { type: 'zigzag', amplitude: number, frequency: number, minDifficulty?: number }
+    | { type: 'homing', accel: number, maxDrift: number, minDifficulty?: number }
+    | { type: 'shooter', interval: number, bulletSpeed: number, minDifficulty?: number };
+
+export interface EnemyScaling {
+    fromWave: number; // scaling kicks in after this wave
+    hpPerWave: number;
+    speedPerWave: number;
+}
+
+export interface EnemyDef {
+    id: string;
+    parts: EnemyPart[];
+    hp: number;
+    speed: number; // units/sec
+    dmg: number;
+    reward: number;
+    scaling?: EnemyScaling;
+    // Index = stage difficulty (clamped to the last entry)
+    spawnWeights: number[];
+    minWave?: number;
+    spin?: number; // rad/sec around z for the first part
+    hpBarY?: number;
+    splitInto?: { id: string, count: number };
+    behaviours?: EnemyBehaviour[];
+    // Chance per stage difficulty to spawn with a shield that soaks the first explosion
+    shieldChance?: number[];
+    // Outline drawn around the unit when shape cues are on; one shape per archetype
+    cue?: { shape: CueShape, radius: number };
+}
+
+export const DEFAULT_SCALING: EnemyScaling = { fromWave: 5, hpPerWave: 0.25, speedPerWave: 0.03 };
+
+const droneSpikes: EnemyPart[] = [[0,1,0], [0,-1,0], [1,0,0], [-1,0,0], [0,0,1], [0,0,-1]].map(p => ({
+    geometry: 'droneSpike',
+    material: 'enemyGreenGlow',
+    position: [p[0]*0.6, p[1]*0.6, p[2]*0.6] as Vec3Tuple,
+    lookAt: [p[0]*2, p[1]*2, p[2]*2] as Vec3Tuple,
+    rotation: [Math.PI/2, 0, 0] as Vec3Tuple
+}));
+
+export const ENEMY_DEFS: Record<string, EnemyDef> = {
+    scout: {
+        id: 'scout',
+        parts: [
+            { geometry: 'scoutRing', material: 'enemyGrey', rotation: [Math.PI/2, 0, 0] },
+            { geometry: 'scoutEye', material: 'enemyRedGlow' }
+        ],
+        hp: 3.5, speed: 9, dmg: 1, reward: 20,
+        spawnWeights: [0.7, 0.42, 0.336],
+        spin: 3,
+        shieldChance: [0, 0, 0, 0.1],
+        cue: { shape: 'circle', radius: 1.9 }
+    },
+    drone: {
+        id: 'drone',
+        parts: [{ geometry: 'droneCore', material: 'enemyBlack' }, ...droneSpikes],
+        hp: 2, speed: 21, dmg: 2, reward: 15,
+        spawnWeights: [0.3, 0.18, 0.144],
+        minWave: 2,
+        behaviours: [{ type: 'homing', accel: 12, maxDrift: 8, minDifficulty: 1 }],
+        cue: { shape: 'diamond', radius: 2 }
+    },
+    fighter: {
+        id: 'fighter',
+        parts: [
+            { geometry: 'fighterBody', material: 'enemyBlack', rotation: [Math.PI, 0, 0] },
+            { geometry: 'fighterWing', material: 'enemyRedGlow', position: [-0.8, 0, 0], rotation: [Math.PI, 0, 0.5] },
+            { geometry: 'fighterWing', material: 'enemyRedGlow', position: [0.8, 0, 0], rotation: [Math.PI, 0, -0.5] }
+        ],
+        hp: 5, speed: 15, dmg: 5, reward: 25,
+        spawnWeights: [0, 0.4, 0.32],
+        behaviours: [{ type: 'zigzag', amplitude: 6, frequency: 2.5 }],
+        shieldChance: [0, 0, 0.1, 0.2],
+        cue: { shape: 'triangle', radius: 2.6 }
+    },
+    dread: {
+        id: 'dread',
+        parts: [
+            { geometry: 'dreadMain', material: 'enemyBlack' },
+            { geometry: 'dreadSide', material: 'enemyGrey', position: [-1.8, 0, 0] },
+            { geometry: 'dreadSide', material: 'enemyGrey', position: [1.8, 0, 0] },
+            { geometry: 'dreadTurret', material: 'enemyRedGlow', position: [0, 1, 0], rotation: [Math.PI/2, 0, 0] }
+        ],
+        hp: 30, speed: 3, dmg: 10, reward: 50,
+        spawnWeights: [0, 0, 0.2],
+        behaviours: [{ type: 'shooter', interval: 3, bulletSpeed: 6 }],
+        shieldChance: [0, 0, 0.15, 0.3],
+        cue: { shape: 'square', radius: 3.4 }
+    }
+};
+
+export function registerEnemy(def: EnemyDef) {
+    ENEMY_DEFS[def.id] = def;
+}
+
+export function enemyScale(def: EnemyDef, wave: number) {
+    const s = def.scaling || DEFAULT_SCALING;
+    if (wave <= s.fromWave) return { hp: 1, speed: 1 };
+    return { hp: 1 + ((wave - s.fromWave) * s.hpPerWave), speed: 1 + ((wave - s.fromWave) * s.speedPerWave) };
+}
+
+export function pickEnemyType(rng: Rng, difficulty: number, wave: number): string {
+    const pool: [string, number][] = [];
+    let total = 0;
+    for (const id in ENEMY_DEFS) {
+        const def = ENEMY_DEFS[id];
+        if (def.minWave && wave < def.minWave) continue;
+        const w = def.spawnWeights[Math.min(difficulty, def.spawnWeights.length - 1)] || 0;
+        if (w <= 0) continue;
+        pool.push([id, w]);
+        total += w;
+    }
+    if (!pool.length) return 'scout';
+
+    let roll = rng.next() * total;
+    for (const [id, w] of pool) {
+        roll -= w;
+        if (roll < 0) return id;
+    }
+    return pool[pool.length - 1][0];
+}
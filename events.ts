@@ -0,0 +1,78 @@
+
+import { EngineState } from './state';
+import { BossStatus } from './bosses';
+import { AbilityStatus } from './classes';
+import { DefenseStatus } from './defense';
+import { PerfSnapshot } from './perf';
+import { WeaponId } from './weapons';
+
+// Everything the engine tells the outside world. Each event fires once per
+// occurrence, so the UI, audio, analytics and achievements can each subscribe
+// without coordinating. `state` carries EngineState changes only when something
+// changed; per-frame numbers (reload bars, shield) go out on the throttled `hud`.
+
+export type PauseReason = 'user' | 'hidden' | 'blur';
+
+export const EVENTS = {
+    hudInterval: 0.1 // seconds of simulation between hud events
+};
+
+export interface HudSnapshot {
+    reloadProgress: Record<WeaponId, number>;
+    reloadTimeLeft: Record<WeaponId, number>;
+    defense: DefenseStatus;
+    ability: AbilityStatus | null;
+}
+
+export interface EngineEvents {
+    state: Partial<EngineState>;
+    hud: HudSnapshot;
+    perf: PerfSnapshot; // every PERF.reportInterval of real time while frames are drawn
+    waveStarted: { mode: 'story' | 'endless', stage: number | null };
+    waveCleared: { stage: number | null, bonus: number };
+    paused: { reason: PauseReason };
+    resumed: {};
+    gameOver: { mode: 'story' | 'endless', wave: number, money: number };
+    enemyKilled: { type: string, x: number, y: number, reward: number };
+    missileFired: { weapon: WeaponId, x: number, y: number, targetX: number, targetY: number };
+    explosion: { weapon: WeaponId, x: number, y: number, radius: number, damage: number, crit: boolean };
+    enemyFired: { source: string, boss: boolean, x: number, y: number, count: number }; // one per volley
+    playerDamaged: { amount: number, x: number, absorbed: number, segment: number, health: number };
+    abilityUsed: { type: string, x: number, y: number };
+    bossSpawned: BossStatus;
+    bossPhase: BossStatus;
+    bossDefeated: { name: string, x: number, y: number, reward: number };
+}
+
+export type EngineEventType = keyof EngineEvents;
+
+export class EventBus<E> {
+    private handlers: { [K in keyof E]?: ((payload: E[K]) => void)[] } = {};
+
+    // Returns the unsubscribe function
+    on<K extends keyof E>(type: K, fn: (payload: E[K]) => void): () => void {
+        (this.handlers[type] ||= []).push(fn);
+        return () => this.off(type, fn);
+    }
+
+    once<K extends keyof E>(type: K, fn: (payload: E[K]) => void): () => void {
+        const off = this.on(type, payload => { off(); fn(payload); });
+        return off;
+    }
+
+    off<K extends keyof E>(type: K, fn: (payload: E[K]) => void) {
+        const list = this.handlers[type];
+        if (list) this.handlers[type] = list.filter(h => h !== fn);
+    }
+
+    // Handlers added or removed while emitting take effect from the next emit
+    emit<K extends keyof E>(type: K, payload: E[K]) {
+        const list = this.handlers[type];
+        if (!list) return;
+        for (const fn of list.slice()) fn(payload);
+    }
+
+    clear() {
+        this.handlers = {};
+    }
+}
@@ -0,0 +1,89 @@
+import * as THREE from 'three';
+import { GameEngine } from './index';
+import { createHeadlessPlatform } from './platform';
+import { ReplayRecorder, verifyReplay } from './replay';
+
+// Headless end-to-end check, in Node:
+//   npx tsx headless-check.ts
+// Plays a scripted story run to its end and verifies the replay it recorded
+// (also after a JSON round trip). Along the way it checks for leaks two ways:
+// clearing the run brings the tracked resources back to what the engine had
+// after initAssets, and dispose disposes every geometry and material that was
+// ever in the scene, tracked or not. Throws on the first failure.
+
+const STAGE = 2;
+const SEED = 1234;
+const MAX_TICKS = 60 * 600;
+const SAMPLE_EVERY = 30; // ticks between scene scans for live resources
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`headless check failed: ${what}`);
+    console.log(`ok  ${what}`);
+}
+
+const countsDiff = (a: object, b: object) => Object.keys(a)
+    .filter(k => (a as any)[k] !== (b as any)[k])
+    .map(k => `${k} ${(a as any)[k]} -> ${(b as any)[k]}`);
+
+// Everything disposed from here on, by anyone
+const disposed = new Set<object>();
+const spy = (proto: { dispose(): void }) => {
+    const original = proto.dispose;
+    proto.dispose = function (this: object) {
+        disposed.add(this);
+        return original.call(this);
+    };
+};
+spy(THREE.BufferGeometry.prototype);
+spy(THREE.Material.prototype);
+
+let ended = false;
+const engine: GameEngine = new GameEngine(
+    null,
+    (updates) => { engine.currentState = { ...engine.currentState, ...updates }; },
+    () => { ended = true; },
+    () => { ended = true; },
+    null,
+    createHeadlessPlatform()
+);
+const baseline = engine.resources.counts();
+const baselineObjects = engine.scene.children.length;
+
+const seen = new Set<object>();
+const scan = () => engine.scene.traverse(obj => {
+    const drawn = obj as Partial<THREE.Mesh>;
+    if (drawn.geometry) seen.add(drawn.geometry);
+    if (drawn.material) ([] as THREE.Material[]).concat(drawn.material).forEach(m => seen.add(m));
+});
+
+engine.recorder = new ReplayRecorder();
+engine.startStory(STAGE, false, SEED);
+
+// Aims just below the oldest enemy and fires a standard missile every quarter second
+while (!ended && engine.tickCount < MAX_TICKS) {
+    if (engine.tickCount % 15 === 0 && engine.enemies.length) {
+        const target = engine.enemies[0].position;
+        engine.setAim(target.x, target.y - 5);
+        engine.fire('normal');
+    }
+    if (engine.tickCount % SAMPLE_EVERY === 0) scan();
+    engine.step();
+}
+scan();
+check(ended, `stage ${STAGE} ends within ${MAX_TICKS} ticks`);
+
+const replay = engine.recorder.replay;
+if (!replay || !replay.result) throw new Error('headless check failed: the recorder did not finish the replay when the run ended');
+console.log(`    ${replay.events.length} events, result ${JSON.stringify(replay.result)}`);
+check(verifyReplay(replay), 'the replay plays back to the same result');
+check(verifyReplay(JSON.parse(JSON.stringify(replay))), 'the replay survives a JSON round trip');
+
+engine.cleanupEntities();
+const grown = countsDiff(baseline, engine.resources.counts());
+check(grown.length === 0, `clearing the run returns tracked resources to the post-init baseline${grown.length ? ` (${grown.join(', ')})` : ''}`);
+check(engine.scene.children.length === baselineObjects, `clearing the run leaves ${baselineObjects} scene objects (found ${engine.scene.children.length})`);
+
+engine.dispose();
+const leaked = [...seen].filter(r => !disposed.has(r));
+check(leaked.length === 0, `dispose disposes all ${seen.size} geometries and materials seen in the scene${leaked.length ? ` (${leaked.length} left)` : ''}`);
+check(!engine.debugCounters().frameLoop, 'dispose stops the frame loop');
@@ -1,18 +1,42 @@
 
 import * as THREE from 'three';
-import { GameState, STAGES, StageConfig } from '../types';
+import { EngineState, InitialState } from './state';
+import { EnginePlatform, EngineRenderer, createBrowserPlatform } from './platform';
+import { Rng, randomSeed } from './rng';
+import { ReplayRecorder } from './replay';
+import { ENEMY_DEFS, enemyScale, pickEnemyType } from './enemies';
+import { ActiveBoss, BOSS_DEFS, BossAttack, BossMovement, BossStatus, bossPhaseFor } from './bosses';
+import { Campaign, CampaignError, DEFAULT_ARENA_WIDTH, DEFAULT_CAMPAIGN, StageDef, parseCampaign } from './campaign';
+import { SpatialGrid } from './spatial';
+import { InstanceBatcher, markPart } from './instancing';
+import { ParticlePool } from './particles';
+import { ResourceCounts, ResourceTracker } from './resources';
+import { ExplosionVisual, WEAPON_DEFS, WeaponId, WeaponPart, steerTowards, upgradeCost } from './weapons';
+import { AbilityStatus, ClassDef, classDef, classHasWeapon, purchaseClass } from './classes';
+import { EVENTS, EngineEvents, EventBus, HudSnapshot, PauseReason } from './events';
+import { SlowMotion, TIME, combineSlowMotion, slowMotionFactor } from './time';
+import { DEFAULT_QUALITY, PostProcessing, QUALITY_PRESETS, Quality, QualityPreset, isQuality } from './postfx';
+import { PERF, PerfGovernor, PerfOverlay, PerfSnapshot } from './perf';
+import { A11Y, AccessibilitySettings, ColorPalette, CueShape, PALETTES, cueGeometry, cueGeometryKey, normalizeAccessibility } from './accessibility';
+import { AudioSettings, GameAudio } from './audio';
+import { INPUT, InputAction, InputController, defaultBindings, isEditableTarget } from './input';
+import { DEFENSE, DefenseStatus, basePercent, hitSegment, newSegments, segmentCenter, segmentIndexAt } from './defense';
+import { CRIT_MULTIPLIER, EffectiveStats, EffectiveWeaponStats, effectiveStats, effectiveWeaponStats, levelsFor, purchaseUpgrade, respec, scaleReward } from './progression';
+import { ENDLESS, EndlessRun, EndlessStatus, ScoreEntry, endlessBossHp, endlessDifficulty, endlessScale, endlessScore, endlessSpawnInterval, loadLeaderboard, newEndlessRun, submitScore } from './endless';
+import { AUTOSAVE_INTERVAL, SaveIssue, checkGameState, loadSave, persistedFields, writeSave } from './save';
 
 export class GameEngine {
     scene: THREE.Scene;
     camera: THREE.PerspectiveCamera;
-    renderer: THREE.WebGLRenderer;
-    container: HTMLElement;
+    renderer: EngineRenderer;
+    platform: EnginePlatform;
+    container: HTMLElement | null;
     
     // Game Objects
     missiles: THREE.Group[] = [];
     enemies: THREE.Group[] = [];
-    enemyBullets: THREE.Mesh[] = []; 
-    particles: any[] = [];
+    enemyBullets: THREE.Object3D[] = []; 
+    particles: any[] = []; // blast zones and fireballs; sparks live in the pools
     barriers: THREE.Group | null = null;
     starfield: THREE.Points | null = null;
     
@@ -20,27 +44,104 @@ export class GameEngine {
     materials: Record<string, THREE.Material> = {};
     geometries: Record<string, THREE.BufferGeometry> = {};
     particleTexture: THREE.Texture | null = null;
+
+    // Batched drawing: enemies, missiles and bullets are transform-only hierarchies
+    // drawn through instanced meshes; explosion sparks share two fixed buffers.
+    // Built by initAssets, which the constructor always runs.
+    instances!: InstanceBatcher;
+    sparks!: ParticlePool;
+    nukeSparks!: ParticlePool;
+    freeFireballs: THREE.Mesh[] = [];
+
+    // Lifecycle: every GPU resource, timer and listener goes through the tracker
+    resources = new ResourceTracker();
+    frameHandle: number | null = null;
+    disposed: boolean = false;
+
+    // Broad phase (switch off to benchmark against brute force)
+    useSpatialGrid: boolean = true;
+    enemyGrid = new SpatialGrid<THREE.Group>(8);
+    bulletGrid = new SpatialGrid<THREE.Object3D>(8);
+    blastGrid = new SpatialGrid<any>(8);
+    enemyGridStale: boolean = true;
+    bulletGridStale: boolean = true;
     
     // State
-    mode: 'story' | 'casual' | 'menu' | 'gameover' = 'menu';
+    mode: 'story' | 'casual' | 'endless' | 'menu' | 'gameover' = 'menu';
     isRunning: boolean = false;
     isPaused: boolean = false;
     mouse3D: THREE.Vector3 = new THREE.Vector3();
     liveMouse3D: THREE.Vector3 = new THREE.Vector3();
     lastMouseTime: number = 0; 
+
+    // Input
+    input: InputController;
+    selectedWeapon: WeaponId = 'normal';
+    // Opt-in: mouse buttons and touch taps fire through the bindings. Leave off
+    // while the host still calls handleClick from its own mousedown handler, or
+    // every click fires (and spends) twice
+    pointerFire: boolean = false;
+    autofireTimer: number = 0;
+    touches = new Map<number, { world: THREE.Vector3, startX: number, startY: number, startTime: number, gesture: boolean }>();
     
     // Time Management
     lastTime: number = 0;
+    fixedDt: number = 1 / 60; // simulation step (seconds)
+    maxFrameDt: number = 0.25; // clamp so a stalled tab can't queue hundreds of steps
+    accumulator: number = 0;
+    simTime: number = 0;
+    tickCount: number = 0;
+    gameSpeed: number = 1; // player setting, TIME.minSpeed..1
+    slowMo: SlowMotion | null = null;
+
+    // Determinism
+    rng: Rng = new Rng();
+    recorder: ReplayRecorder | null = null;
 
     // Logic vars
-    bossActive: any = null; 
+    bossActive: ActiveBoss | null = null;
     enemiesToSpawn: number = 0;
     spawnTimer: number = 0;
+    stageTime: number = 0;
+    timelineIndex: number = 0;
+    bossPending: boolean = false;
+    escortsToSpawn: number = 0;
+    escortTimer: number = 0;
+    stageCleared: boolean = false;
+    stageIndex: number | null = null;
+    arenaWidth: number = DEFAULT_ARENA_WIDTH;
     
-    // Regen Counters
-    regenCounters = { normal: 0, big: 0, nuke: 0 };
-
-    currentStageConfig: StageConfig | null = null;
+    // Regen Counters; the bars change every step, so they reach the UI through hud, not state
+    regenCounters: Record<WeaponId, number> = {};
+    reloadProgress: Record<WeaponId, number> = {};
+    reloadTimeLeft: Record<WeaponId, number> = {};
+
+    // Class ability and perks (per run)
+    abilityCooldown: number = 0;
+    overdriveTime: number = 0;
+
+    // Base defense
+    segments = newSegments();
+    segmentMeshes: THREE.Mesh[] = [];
+    baseShield: THREE.Mesh | null = null;
+    shieldHp: number = DEFENSE.shieldMax;
+    shieldMax: number = DEFENSE.shieldMax;
+    sinceLastHit: number = 0;
+
+    // Hit feedback; render-only, decays in update
+    cameraBase = new THREE.Vector3(0, 0, 50);
+    shake: number = 0;
+    flash: number = 0;
+    flashOverlay: THREE.Mesh | null = null;
+
+    campaign: Campaign = DEFAULT_CAMPAIGN;
+    currentStageConfig: StageDef | null = null;
+
+    // Endless Mode
+    endless: EndlessRun = newEndlessRun();
+    endlessStatusTimer: number = 0;
+    lastEndlessRank: number | null = null;
+    leaderboard: ScoreEntry[] | null = null;
 
     // Casual Mode
     casualSpawnCounter: number = 0;
@@ -48,38 +149,76 @@ export class GameEngine {
     particleCount: number = 600; 
     particlesMesh: THREE.Points | null = null;
     
-    // Callbacks
-    onStateUpdate: (s: Partial<GameState>) => void;
-    onGameOver: () => void;
-    onWaveComplete: () => void;
+    // Events
+    events = new EventBus<EngineEvents>();
+    hudTimer: number = 0;
+    audio: GameAudio;
+
+    // Rendering quality
+    quality: Quality = DEFAULT_QUALITY;
+    post: PostProcessing | null = null;
+    perf = new PerfGovernor();
+    perfOverlay: PerfOverlay | null = null;
+    lastPerfReport: number = 0;
+
+    // Accessibility: palette swaps, shape cues, flash and motion caps
+    accessibility: AccessibilitySettings;
+    baseColors: Record<string, { color?: number, emissive?: number }> = {};
     
-    currentState: GameState;
-
-    constructor(container: HTMLElement, updateCallback: (s: Partial<GameState>) => void, gameOverCallback: () => void, waveCompleteCallback: () => void, initialState: GameState) {
+    currentState: EngineState;
+
+    // Progress and settings are written to platform storage when they change,
+    // at most every AUTOSAVE_INTERVAL and at checkpoints (wave cleared, game
+    // over, pause, dispose). Hosts that keep their own saves turn autosave off.
+    autosave: boolean = true;
+    saveIssues: SaveIssue[] = []; // what loading or checking the initial state fixed up
+    unsaved: Partial<EngineState> | null = null; // saved fields changed since the last write
+    lastSave: number = 0;
+
+    // The three callbacks are shorthand for subscribing to state, gameOver and
+    // waveCleared; pass null and use `events` directly for anything else. A null
+    // initialState loads the save from platform storage.
+    constructor(container: HTMLElement | null, updateCallback: ((s: Partial<EngineState>) => void) | null, gameOverCallback: (() => void) | null, waveCompleteCallback: (() => void) | null, initialState: InitialState | null, platform?: EnginePlatform) {
         this.container = container;
-        this.onStateUpdate = updateCallback;
-        this.onGameOver = gameOverCallback;
-        this.onWaveComplete = waveCompleteCallback;
-        this.currentState = JSON.parse(JSON.stringify(initialState));
+        this.platform = platform || createBrowserPlatform(container);
+        if (updateCallback) this.events.on('state', updateCallback);
+        if (gameOverCallback) this.events.on('gameOver', () => gameOverCallback());
+        if (waveCompleteCallback) this.events.on('waveCleared', () => waveCompleteCallback());
+        const loaded = initialState ? checkGameState(initialState) : loadSave(this.platform.storage);
+        this.currentState = loaded.state;
+        this.saveIssues = loaded.issues;
+        this.events.on('waveCleared', () => this.flushSave());
+        this.events.on('gameOver', () => this.flushSave());
+        this.input = new InputController(this.currentState.bindings);
+        this.audio = this.resources.track(new GameAudio(this.platform.createAudioContext?.() ?? null, this.currentState.audio));
+        this.audio.connect(this.events, () => this.arenaWidth);
+        this.gameSpeed = this.currentState.gameSpeed;
+        this.accessibility = normalizeAccessibility(this.currentState.accessibility);
+        this.events.on('bossDefeated', () => this.slowMotion(TIME.bossKill.scale, TIME.bossKill.duration));
+        this.events.on('explosion', e => {
+            if (WEAPON_DEFS[e.weapon]?.explosion.kind === 'nuke' && this.isCombatMode()) this.slowMotion(TIME.nuke.scale, TIME.nuke.duration);
+        });
 
         // Init Three.js
         this.scene = new THREE.Scene();
         this.scene.fog = new THREE.FogExp2(0x000000, 0.005);
         
-        this.camera = new THREE.PerspectiveCamera(45, window.innerWidth / window.innerHeight, 0.1, 1000);
-        this.camera.position.set(0, 0, 50);
+        const { width, height } = this.platform.host.getSize();
+        this.camera = new THREE.PerspectiveCamera(45, width / height, 0.1, 1000);
+        this.camera.position.copy(this.cameraBase);
         
-        // High Performance Renderer Settings
-        this.renderer = new THREE.WebGLRenderer({ 
-            antialias: true, 
-            alpha: true,
-            powerPreference: "high-performance"
-        });
-        this.renderer.setSize(window.innerWidth, window.innerHeight);
-        this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-        this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
-        this.renderer.toneMappingExposure = 1.2;
-        container.appendChild(this.renderer.domElement);
+        this.renderer = this.platform.renderer;
+        this.renderer.setSize(width, height);
+        this.quality = isQuality(this.currentState.quality) ? this.currentState.quality : DEFAULT_QUALITY;
+        this.renderer.setPixelRatio(this.pixelRatio());
+        if (container && this.renderer.domElement) container.appendChild(this.renderer.domElement);
+
+        // Post-processing needs a real WebGL renderer; headless runs render plainly
+        if (this.renderer instanceof THREE.WebGLRenderer) {
+            this.post = this.resources.track(new PostProcessing(this.renderer, this.scene, this.camera, this.qualityPreset()));
+            this.post.setPixelRatio(this.pixelRatio());
+            this.post.connect(this.events, (x, y) => this.worldToScreen(x, y));
+        }
 
         // Lighting
         const amb = new THREE.AmbientLight(0xffffff, 0.4);
@@ -94,26 +233,38 @@ export class GameEngine {
 
         this.initAssets();
         this.createBarriers();
+        this.createDefense();
+        this.applyAccessibility();
         
-        window.addEventListener('resize', this.onResize);
-        window.addEventListener('mousemove', this.onMouseMove);
+        this.resources.listen(this.platform.host, 'resize', this.onResize);
+        this.resources.listen(this.platform.host, 'pointermove', this.onPointerMove);
+        this.resources.listen(this.platform.host, 'pointerdown', this.onPointerDown);
+        this.resources.listen(this.platform.host, 'pointerup', this.onPointerUp);
+        this.resources.listen(this.platform.host, 'pointercancel', this.onPointerCancel);
+        this.resources.listen(this.platform.host, 'keydown', this.onKeyDown);
+        this.resources.listen(this.platform.host, 'keyup', this.onKeyUp);
+        this.resources.listen(this.platform.host, 'blur', this.onBlur);
+        this.resources.listen(this.platform.host, 'visibilitychange', this.onVisibilityChange);
         
-        this.lastTime = performance.now();
-        this.animate();
+        this.lastTime = this.platform.clock.now();
+        if (this.platform.autoStart) this.animate();
     }
 
     initAssets() {
-        const canvas = document.createElement('canvas');
-        canvas.width = 64; canvas.height = 64;
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-            const gr = ctx.createRadialGradient(32,32,0,32,32,32);
-            gr.addColorStop(0, 'rgba(255,255,255,1)');
-            gr.addColorStop(1, 'rgba(255,255,255,0)');
-            ctx.fillStyle = gr;
-            ctx.fillRect(0,0,64,64);
-        }
-        this.particleTexture = new THREE.CanvasTexture(canvas);
+        // Headless runs have no canvas to paint the sprite into; points render untextured
+        if (!this.platform.headless) {
+            const canvas = document.createElement('canvas');
+            canvas.width = 64; canvas.height = 64;
+            const ctx = canvas.getContext('2d');
+            if (ctx) {
+                const gr = ctx.createRadialGradient(32,32,0,32,32,32);
+                gr.addColorStop(0, 'rgba(255,255,255,1)');
+                gr.addColorStop(1, 'rgba(255,255,255,0)');
+                ctx.fillStyle = gr;
+                ctx.fillRect(0,0,64,64);
+            }
+            this.particleTexture = this.resources.track(new THREE.CanvasTexture(canvas));
+        }
 
         const geoms = this.geometries;
         
@@ -132,6 +283,7 @@ export class GameEngine {
         geoms.smallBody = new THREE.CylinderGeometry(0.2, 0.2, 3.0, 8);
         geoms.smallHead = new THREE.SphereGeometry(0.2, 8, 8, 0, Math.PI*2, 0, Math.PI/2);
         const smallFinPts = new Float32Array([0,0.7,0, 0.7,-0.4,0, 0,-0.4,0, 0,0.7,0, 0,-0.4,0, 0.7,-0.4,0]);
+        geoms.smallFinBox = new THREE.BoxGeometry(0.1, 0.5, 0.5);
         geoms.smallFin = new THREE.BufferGeometry();
         geoms.smallFin.setAttribute('position', new THREE.BufferAttribute(smallFinPts, 3));
         
@@ -152,10 +304,16 @@ export class GameEngine {
 
         geoms.barrierPole = new THREE.CylinderGeometry(0.2, 0.2, 100, 8);
         geoms.enemyBullet = new THREE.SphereGeometry(0.6, 8, 8);
+        geoms.enemyShield = new THREE.SphereGeometry(2.6, 16, 12);
 
         geoms.hpBg = new THREE.PlaneGeometry(3, 0.4);
         geoms.hpFg = new THREE.PlaneGeometry(2.9, 0.3);
+        geoms.fireball = new THREE.SphereGeometry(1, 32, 32);
+        geoms.baseSegment = new THREE.BoxGeometry(1, 1.5, 2);
+        geoms.baseShield = new THREE.PlaneGeometry(1, 0.4);
+        geoms.flash = new THREE.PlaneGeometry(80, 50);
         geoms.hpFg.translate(1.45, 0, 0);
+        (['circle', 'triangle', 'square', 'diamond'] as CueShape[]).forEach(shape => { geoms[cueGeometryKey(shape)] = cueGeometry(shape); });
 
         const mats = this.materials;
         mats.nukeBody = new THREE.MeshStandardMaterial({ color: 0x445566, roughness: 0.4, metalness: 0.5 }); 
@@ -165,6 +323,7 @@ export class GameEngine {
         mats.bigFin = new THREE.MeshStandardMaterial({ color: 0x374151, side: THREE.DoubleSide });
         mats.bigGlass = new THREE.MeshStandardMaterial({ color: 0x3b82f6, roughness: 0.1, emissive: 0x1d4ed8, emissiveIntensity: 0.5 });
         mats.stdBody = new THREE.MeshStandardMaterial({ color: 0xf3f4f6, roughness: 0.5 });
+        mats.guidedHead = new THREE.MeshStandardMaterial({ color: 0x22d3ee, emissive: 0x0891b2, emissiveIntensity: 1.5 });
         mats.stdDark = new THREE.MeshStandardMaterial({ color: 0x4b5563, side: THREE.DoubleSide }); 
         
         mats.enemyBlack = new THREE.MeshStandardMaterial({ color: 0x111111, roughness: 0.4 });
@@ -177,29 +336,129 @@ export class GameEngine {
         
         mats.barrierGlow = new THREE.MeshBasicMaterial({ color: 0xff0000, transparent: true, opacity: 0.3 });
         mats.bullet = new THREE.MeshBasicMaterial({ color: 0xff4400 });
+        mats.enemyShield = new THREE.MeshBasicMaterial({ color: 0x38bdf8, transparent: true, opacity: 0.25, depthWrite: false });
         
         mats.hpBg = new THREE.MeshBasicMaterial({ color: 0x000000 });
         mats.hpFg = new THREE.MeshBasicMaterial({ color: 0x39ff14 });
+        mats.baseSegment = new THREE.MeshStandardMaterial({ color: 0x22c55e, emissive: 0x14532d, roughness: 0.5 });
+        mats.baseShield = new THREE.MeshBasicMaterial({ color: 0x38bdf8, transparent: true, opacity: 0.35, depthWrite: false });
+        mats.flash = new THREE.MeshBasicMaterial({ color: 0xff2200, transparent: true, opacity: 0, depthTest: false, depthWrite: false });
+        mats.fireball = new THREE.MeshBasicMaterial({ color: 0xaaffaa, transparent: true, opacity: 0.9, blending: THREE.AdditiveBlending });
+        mats.cue = new THREE.MeshBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.85, depthWrite: false, side: THREE.DoubleSide });
+        mats.bulletCue = new THREE.MeshBasicMaterial({ color: 0xfde047, transparent: true, opacity: 0.85, depthWrite: false, side: THREE.DoubleSide });
+
+        // Palettes swap colours in place; keep the originals to swap back to
+        Object.keys(mats).forEach(key => {
+            const m = mats[key] as THREE.MeshStandardMaterial;
+            this.baseColors[key] = { color: m.color?.getHex(), emissive: m.emissive?.getHex() };
+        });
+
+        Object.values(geoms).forEach(g => this.resources.track(g));
+        Object.values(mats).forEach(m => this.resources.track(m));
+
+        this.instances = this.resources.track(new InstanceBatcher(this.scene, this.geometries, this.materials));
+        this.sparks = this.resources.track(new ParticlePool(20000, 1.0, this.particleTexture));
+        this.nukeSparks = this.resources.track(new ParticlePool(20000, 3.0, this.particleTexture));
+        this.scene.add(this.sparks.points, this.nukeSparks.points);
     }
 
     createBarriers() {
         if (this.barriers) return;
         this.barriers = new THREE.Group();
-        // EXACT ARENA WIDTH: 35
         const left = new THREE.Mesh(this.geometries.barrierPole, this.materials.barrierGlow);
-        left.position.set(-35, 0, 0);
         const right = new THREE.Mesh(this.geometries.barrierPole, this.materials.barrierGlow);
-        right.position.set(35, 0, 0);
         this.barriers.add(left, right);
         this.scene.add(this.barriers);
+        this.setArenaWidth(this.arenaWidth);
     }
 
-    createStoryBackground() {
-        if (this.starfield) {
-            this.scene.remove(this.starfield);
-            this.starfield.geometry.dispose();
-            this.starfield = null;
+    // Half-width of the playfield; barriers sit on the edge, bullets bounce 2 units inside
+    setArenaWidth(width: number) {
+        this.arenaWidth = width;
+        this.layoutDefense();
+        if (!this.barriers) return;
+        this.barriers.children[0].position.set(-width, 0, 0);
+        this.barriers.children[1].position.set(width, 0, 0);
+    }
+
+    // --- DEFENSE ---
+
+    createDefense() {
+        this.segmentMeshes = this.segments.map(() => {
+            // Own material per segment so each can show its damage
+            const mesh = new THREE.Mesh(this.geometries.baseSegment, this.resources.track(this.materials.baseSegment.clone()));
+            this.scene.add(mesh);
+            return mesh;
+        });
+        this.baseShield = new THREE.Mesh(this.geometries.baseShield, this.materials.baseShield);
+        this.scene.add(this.baseShield);
+        this.flashOverlay = new THREE.Mesh(this.geometries.flash, this.materials.flash);
+        this.flashOverlay.position.set(0, 0, this.cameraBase.z - 6);
+        this.flashOverlay.renderOrder = 999;
+        this.scene.add(this.flashOverlay);
+        this.layoutDefense();
+    }
+
+    layoutDefense() {
+        const count = this.segmentMeshes.length;
+        const slice = (this.arenaWidth * 2) / count;
+        this.segmentMeshes.forEach((mesh, i) => {
+            mesh.position.set(segmentCenter(i, count, this.arenaWidth), DEFENSE.viewY, 0);
+            mesh.scale.x = slice - 0.6;
+        });
+        if (this.baseShield) {
+            this.baseShield.position.set(0, DEFENSE.viewY + 1.2, 0);
+            this.baseShield.scale.x = this.arenaWidth * 2;
         }
+        this.refreshDefenseVisuals();
+    }
+
+    refreshDefenseVisuals() {
+        const healthy = new THREE.Color(this.palette().baseHealthy), broken = new THREE.Color(this.palette().baseBroken);
+        this.segmentMeshes.forEach((mesh, i) => {
+            const s = this.segments[i];
+            const t = s.hp / s.maxHp;
+            const mat = mesh.material as THREE.MeshStandardMaterial;
+            if (s.hp <= 0) mat.color.setHex(0x1f2937);
+            else mat.color.copy(broken).lerp(healthy, t);
+            mesh.scale.y = s.hp <= 0 ? 0.3 : 1;
+        });
+        if (this.baseShield) {
+            this.baseShield.visible = this.shieldHp > 0;
+            (this.baseShield.material as THREE.MeshBasicMaterial).opacity = 0.35 * (this.shieldHp / this.shieldMax);
+        }
+    }
+
+    defenseStatus(): DefenseStatus {
+        return {
+            segments: this.segments.map(s => ({ hp: s.hp, maxHp: s.maxHp })),
+            shield: Math.floor(this.shieldHp),
+            shieldMax: this.shieldMax
+        };
+    }
+
+    // Shake and flash intensities (0..1-ish) for UI overlays
+    hitFeedback() {
+        return { shake: this.shake, flash: this.flash };
+    }
+
+    // Accepts a parsed campaign object or raw JSON; throws CampaignError listing every problem
+    loadCampaign(input: Campaign | string) {
+        this.campaign = parseCampaign(input);
+    }
+
+    removeStarfield() {
+        this.resources.releaseObject(this.starfield);
+        this.starfield = null;
+    }
+
+    removeParticleWeb() {
+        this.resources.releaseObject(this.particlesMesh);
+        this.particlesMesh = null;
+    }
+
+    createStoryBackground() {
+        this.removeStarfield();
         const count = 1500;
         const positions = new Float32Array(count * 3);
         const speeds = [];
@@ -212,48 +471,209 @@ export class GameEngine {
         const geo = new THREE.BufferGeometry();
         geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
         const mat = new THREE.PointsMaterial({ color: 0xaaaaaa, size: 0.5, transparent: true, opacity: 0.6 });
-        this.starfield = new THREE.Points(geo, mat);
+        this.starfield = this.resources.trackObject(new THREE.Points(geo, mat));
         this.starfield.userData = { speeds };
         this.scene.add(this.starfield);
     }
 
-    startStory(levelIndex: number, isSidePath: boolean = false) {
+    // Everything a run's outcome depends on starts from the seed and zeroed counters
+    resetSimulation(seed: number) {
+        this.rng = new Rng(seed);
+        this.simTime = 0;
+        this.tickCount = 0;
+        this.accumulator = 0;
+        this.spawnTimer = 0;
+        this.regenCounters = {};
+        this.reloadProgress = {};
+        this.reloadTimeLeft = {};
+        this.abilityCooldown = 0;
+        this.overdriveTime = 0;
+        this.segments = newSegments();
+        this.shieldMax = DEFENSE.shieldMax + (this.playerClass().perks.shieldHp || 0);
+        this.shieldHp = this.shieldMax;
+        this.sinceLastHit = 0;
+        this.shake = 0;
+        this.flash = 0;
+        this.refreshDefenseVisuals();
+        this.autofireTimer = 0;
+        this.hudTimer = 0;
+        this.slowMo = null;
+        this.input.endStep();
+        if (!classHasWeapon(this.currentState.playerClass, this.selectedWeapon)) this.selectWeapon(this.playerClass().weapons[0]);
+        // Every run starts behind a full base
+        this.onStateUpdate({ health: 100, defense: this.defenseStatus() });
+        this.currentState.health = 100;
+    }
+
+    // Throws CampaignError for a stage the loaded campaign doesn't have, before touching the current run
+    startStory(levelIndex: number, isSidePath: boolean = false, seed: number = randomSeed()) {
+        let stage = this.campaign.stages[levelIndex];
+        if (!Number.isInteger(levelIndex) || !stage) {
+            throw new CampaignError([`campaign.stages[${levelIndex}]: no such stage (the campaign has ${this.campaign.stages.length})`]);
+        }
         this.cleanupEntities();
+        this.resetSimulation(seed);
+        this.recorder?.begin(levelIndex, isSidePath, seed, this.currentState);
         this.mode = 'story';
         this.isRunning = true;
         this.isPaused = false;
         if (this.barriers) this.barriers.visible = true;
         
-        if (this.particlesMesh) { this.scene.remove(this.particlesMesh); this.particlesMesh = null; }
+        this.removeParticleWeb();
         
         this.createStoryBackground();
 
-        let stage = STAGES[levelIndex];
+        this.stageIndex = levelIndex;
         if (isSidePath && stage.sidePath) stage = stage.sidePath;
         this.currentStageConfig = stage;
+        this.setArenaWidth(stage.arenaWidth);
 
-        if (stage.type === 'wave') {
-            this.enemiesToSpawn = stage.count || 5;
-            this.bossActive = null;
-        } else {
-            this.enemiesToSpawn = 0;
-            this.spawnBoss(stage.hp || 500);
+        this.enemiesToSpawn = stage.wave ? stage.wave.count : 0;
+        this.stageTime = 0;
+        this.timelineIndex = 0;
+        this.bossActive = null;
+        this.bossPending = !!stage.boss;
+        this.escortsToSpawn = stage.boss?.escorts ? stage.boss.escorts.count : 0;
+        this.escortTimer = 0;
+        this.stageCleared = false;
+        this.events.emit('waveStarted', { mode: 'story', stage: levelIndex });
+        this.updateStageSpawns(0);
+    }
+
+    updateStageSpawns(dt: number) {
+        const stage = this.currentStageConfig;
+        if (!stage || this.stageCleared) return;
+        this.stageTime += dt;
+
+        if (stage.wave && this.enemiesToSpawn > 0) {
+            this.spawnTimer += dt;
+            if (this.spawnTimer > stage.wave.interval) {
+                this.spawnEnemy();
+                this.enemiesToSpawn--;
+                this.spawnTimer = 0;
+            }
+        }
+
+        const timeline = stage.timeline || [];
+        while (this.timelineIndex < timeline.length && timeline[this.timelineIndex].at <= this.stageTime) {
+            const entry = timeline[this.timelineIndex++];
+            const count = entry.count || 1;
+            const spread = this.arenaWidth - 5;
+            const centre = entry.x ?? (this.rng.next() - 0.5) * spread * 2;
+            for (let i = 0; i < count; i++) {
+                const x = THREE.MathUtils.clamp(centre + (i - (count - 1) / 2) * (entry.spacing ?? 4), -spread, spread);
+                this.spawnEnemy(entry.enemy, new THREE.Vector3(x, 45, 0));
+            }
+        }
+
+        if (stage.boss && this.bossPending && this.stageTime >= (stage.boss.at || 0)) {
+            this.bossPending = false;
+            this.spawnBoss(stage.boss.hp, stage.boss.id);
+        }
+
+        const escorts = stage.boss?.escorts;
+        if (escorts && this.bossActive && this.escortsToSpawn > 0) {
+            this.escortTimer += dt;
+            if (this.escortTimer > escorts.interval) {
+                this.spawnEnemy(escorts.enemy);
+                this.escortsToSpawn--;
+                this.escortTimer = 0;
+            }
+        }
+
+        const exhausted = this.enemiesToSpawn === 0 && this.timelineIndex >= timeline.length && !this.bossPending;
+        if (exhausted && !this.bossActive && this.enemies.length === 0) {
+            this.stageCleared = true;
+            const bonus = stage.rewards?.money || 0;
+            if (bonus) this.onStateUpdate({ money: this.currentState.money + this.reward(bonus) });
+            this.recorder?.finish(this.currentState, this.tickCount);
+            this.events.emit('waveCleared', { stage: this.stageIndex, bonus });
         }
     }
 
-    startCasual() {
+    startEndless(seed: number = randomSeed()) {
         this.cleanupEntities();
+        this.resetSimulation(seed);
+        this.mode = 'endless';
+        this.stageIndex = null;
+        this.isRunning = true;
+        this.isPaused = false;
+        this.events.emit('waveStarted', { mode: 'endless', stage: null });
+        if (this.barriers) this.barriers.visible = true;
+        this.setArenaWidth(DEFAULT_ARENA_WIDTH);
+        this.createStoryBackground();
+
+        this.currentStageConfig = null;
+        this.enemiesToSpawn = 0;
+        this.bossPending = false;
+        this.endless = newEndlessRun();
+        this.endlessStatusTimer = 0;
+        this.lastEndlessRank = null;
+        this.currentState.health = 100;
+        this.onStateUpdate({ health: 100 });
+    }
+
+    updateEndless(dt: number) {
+        const run = this.endless;
+        run.time += dt;
+
+        run.spawnTimer += dt;
+        const interval = endlessSpawnInterval(run.time) * (this.bossActive ? ENDLESS.bossSpawnSlowdown : 1);
+        if (run.spawnTimer > interval) {
+            this.spawnEnemy();
+            run.spawnTimer = 0;
+        }
+
+        if (!this.bossActive && run.time >= run.nextBoss) {
+            const bossId = ENDLESS.bossRotation[run.bosses % ENDLESS.bossRotation.length];
+            this.spawnBoss(endlessBossHp(run.bosses), bossId);
+            run.bosses++;
+            run.nextBoss = run.time + ENDLESS.bossEvery;
+        }
+
+        this.endlessStatusTimer -= dt;
+        if (this.endlessStatusTimer <= 0) {
+            this.endlessStatusTimer = 0.5;
+            this.onStateUpdate({ endlessStatus: this.endlessStatus() });
+        }
+    }
+
+    endlessStatus(): EndlessStatus {
+        return {
+            time: this.endless.time,
+            kills: this.endless.kills,
+            score: endlessScore(this.endless),
+            difficulty: endlessDifficulty(this.endless.time)
+        };
+    }
+
+    // Read once; afterwards the copy here is the source, in case storage writes fail
+    endlessLeaderboard(): ScoreEntry[] {
+        if (!this.leaderboard) this.leaderboard = loadLeaderboard(this.platform.storage);
+        return [...this.leaderboard];
+    }
+
+    // Story and endless share the combat rules; casual is the sandbox
+    isCombatMode() {
+        return this.mode === 'story' || this.mode === 'endless';
+    }
+
+    startCasual(seed: number = randomSeed()) {
+        this.cleanupEntities();
+        this.resetSimulation(seed);
         this.mode = 'casual';
         this.isRunning = true;
         this.isPaused = false;
         if (this.barriers) this.barriers.visible = true;
-        if (this.starfield) { this.scene.remove(this.starfield); this.starfield = null; }
+        this.setArenaWidth(DEFAULT_ARENA_WIDTH);
+        this.removeStarfield();
         this.onStateUpdate({ health: 100 });
         this.currentState.health = 100;
         this.casualSpawnCounter = 0;
         this.casualSpawnFreq = 60;
-        this.particleCount = 500;
+        this.particleCount = Math.round(500 * this.qualityPreset().particleScale);
         this.createParticleWeb();
+        this.applyPerfBudget();
     }
 
     createParticleWeb() {
@@ -269,27 +689,29 @@ export class GameEngine {
             color: 0x047857, size: 0.6, transparent: true, opacity: 0.6, 
             map: this.particleTexture, blending: THREE.AdditiveBlending, depthWrite: false
         });
-        this.particlesMesh = new THREE.Points(geo, mat);
+        this.particlesMesh = this.resources.trackObject(new THREE.Points(geo, mat));
         this.scene.add(this.particlesMesh);
         this.particlesMesh.geometry.userData.velocities = [];
         for (let i = 0; i < this.particleCount; i++) {
              this.particlesMesh.geometry.userData.velocities.push(
-                 new THREE.Vector3((Math.random() - 0.5) * 0.1, (Math.random() - 0.5) * 0.1, 0)
+                 new THREE.Vector3((Math.random() - 0.5) * 6, (Math.random() - 0.5) * 6, 0)
              );
         }
     }
 
-    updateParticleWeb() {
+    updateParticleWeb(dt: number) {
+        const motion = this.particleMotion();
         if (!this.particlesMesh) return;
         const positions = this.particlesMesh.geometry.attributes.position.array as Float32Array;
         const velocities = this.particlesMesh.geometry.userData.velocities as THREE.Vector3[];
+        const count = Math.min(this.particleCount, this.particlesMesh.geometry.drawRange.count);
 
-        for (let i = 0; i < this.particleCount; i++) {
+        for (let i = 0; i < count; i++) {
             const ix = i * 3;
             const iy = i * 3 + 1;
             
-            positions[ix] += velocities[i].x;
-            positions[iy] += velocities[i].y;
+            positions[ix] += velocities[i].x * dt * motion;
+            positions[iy] += velocities[i].y * dt * motion;
 
             if (positions[ix] > 50) positions[ix] = -50;
             if (positions[ix] < -50) positions[ix] = 50;
@@ -299,176 +721,305 @@ export class GameEngine {
         this.particlesMesh.geometry.attributes.position.needsUpdate = true;
     }
 
-    spawnBoss(hp: number) {
+    spawnBoss(hp: number, bossId: string = 'mothership') {
+        const def = BOSS_DEFS[bossId] || BOSS_DEFS.mothership;
         const g = new THREE.Group();
-        const hull = new THREE.Mesh(this.geometries.bossMain, this.materials.bossHull);
-        hull.rotation.x = Math.PI / 2;
-        const wings = new THREE.Mesh(this.geometries.bossWing, this.materials.bossHull);
-        const core = new THREE.Mesh(this.geometries.bossCore, this.materials.bossCore);
-        const c1 = new THREE.Mesh(this.geometries.bossCannon, this.materials.enemyGrey);
-        c1.position.set(-3, -2, 2); c1.rotation.x = Math.PI/2;
-        const c2 = new THREE.Mesh(this.geometries.bossCannon, this.materials.enemyGrey);
-        c2.position.set(3, -2, 2); c2.rotation.x = Math.PI/2;
-        
-        const light = new THREE.PointLight(0xff0000, 1.5, 30);
-        g.add(light);
-        g.add(hull, wings, core, c1, c2);
+        if (def.light) g.add(new THREE.PointLight(def.light.color, def.light.intensity, def.light.distance));
+
+        const parts = def.parts.map(part => {
+            const mesh = new THREE.Mesh(this.geometries[part.geometry], this.materials[part.material]);
+            if (part.position) mesh.position.set(part.position[0], part.position[1], part.position[2]);
+            if (part.rotation) mesh.rotation.set(part.rotation[0], part.rotation[1], part.rotation[2]);
+            g.add(mesh);
+            const partHp = part.hpFraction ? hp * part.hpFraction : 0;
+            return { def: part, mesh, hp: partHp, maxHp: partHp, destroyed: false };
+        });
+        if (def.scale) g.scale.setScalar(def.scale);
         g.position.set(0, 40, 0); 
         this.scene.add(g);
         
         this.bossActive = { 
+            def,
             mesh: g, 
             hp, 
             maxHp: hp, 
+            parts,
             state: 'entering',
-            nextShot: 1.5,
+            phase: 0,
+            attackTimers: def.phases[0].attacks.map(a => a.interval),
+            spiralAngle: 0,
             moveState: 'strafe',
             moveTimer: 0
         };
-        this.onStateUpdate({ bossStatus: { name: 'VOID MOTHERSHIP', hp, maxHp: hp } });
+        this.onStateUpdate({ bossStatus: this.bossStatus() });
+        this.events.emit('bossSpawned', this.bossStatus()!);
     }
 
-    spawnEnemy() {
-        const difficulty = this.currentStageConfig?.difficulty || 0;
-        const currentWave = this.currentState.wave;
+    bossStatus(): BossStatus | null {
+        const boss = this.bossActive;
+        if (!boss) return null;
+        return {
+            name: boss.def.name,
+            hp: Math.max(0, boss.hp),
+            maxHp: boss.maxHp,
+            phase: boss.phase + 1,
+            phaseCount: boss.def.phases.length,
+            phaseName: boss.def.phases[boss.phase].name
+        };
+    }
 
-        let type = 'scout';
-        if (currentWave > 1 && Math.random() > 0.7) type = 'drone';
-        if (difficulty >= 1 && Math.random() > 0.6) type = 'fighter';
-        if (difficulty >= 2 && Math.random() > 0.8) type = 'dread';
+    updateBoss(boss: ActiveBoss, dt: number) {
+        const def = boss.def;
+        if (boss.state === 'entering') {
+            boss.mesh.position.y -= def.entrySpeed * dt; 
+            if (boss.mesh.position.y <= def.hoverY) { boss.mesh.position.y = def.hoverY; boss.state = 'fighting'; }
+        } else {
+            const phaseIndex = bossPhaseFor(def, boss.hp / boss.maxHp);
+            if (phaseIndex !== boss.phase) {
+                boss.phase = phaseIndex;
+                boss.attackTimers = def.phases[phaseIndex].attacks.map(a => a.interval);
+                boss.moveState = 'strafe';
+                boss.moveTimer = 0;
+                this.onStateUpdate({ bossStatus: this.bossStatus() });
+                this.events.emit('bossPhase', this.bossStatus()!);
+            }
+            const phase = def.phases[boss.phase];
 
-        const g = new THREE.Group();
-        let hp, speed, dmg;
+            this.moveBoss(boss, phase.movement, dt);
+            boss.mesh.position.y = def.hoverY + Math.sin(this.simTime * 2) * 2;
 
-        let hpMult = 1.0;
-        let speedMult = 1.0;
-        if (currentWave > 5) {
-            hpMult = 1 + ((currentWave - 5) * 0.25);
-            speedMult = 1 + ((currentWave - 5) * 0.03);
-        }
-        
-        const matBlack = this.materials.enemyBlack.clone();
-        const matGrey = this.materials.enemyGrey.clone();
-        const matRed = this.materials.enemyRedGlow.clone();
-        const matGreen = this.materials.enemyGreenGlow.clone();
-
-        if (type === 'dread') {
-            const main = new THREE.Mesh(this.geometries.dreadMain, matBlack);
-            const sideL = new THREE.Mesh(this.geometries.dreadSide, matGrey); sideL.position.x = -1.8;
-            const sideR = new THREE.Mesh(this.geometries.dreadSide, matGrey); sideR.position.x = 1.8;
-            const turret = new THREE.Mesh(this.geometries.dreadTurret, matRed); turret.position.y = 1; turret.rotation.x = Math.PI/2;
-            g.add(main, sideL, sideR, turret);
-            hp = 30 * hpMult; speed = 0.05 * speedMult; dmg = 10;
-        } 
-        else if (type === 'fighter') {
-            const body = new THREE.Mesh(this.geometries.fighterBody, matBlack);
-            body.rotation.x = Math.PI; 
-            const wingL = new THREE.Mesh(this.geometries.fighterWing, matRed);
-            wingL.position.set(-0.8, 0, 0); wingL.rotation.z = 0.5; wingL.rotation.x = Math.PI;
-            const wingR = new THREE.Mesh(this.geometries.fighterWing, matRed);
-            wingR.position.set(0.8, 0, 0); wingR.rotation.z = -0.5; wingR.rotation.x = Math.PI;
-            g.add(body, wingL, wingR);
-            hp = 5 * hpMult; speed = 0.25 * speedMult; dmg = 5;
-        } 
-        else if (type === 'drone') {
-            const core = new THREE.Mesh(this.geometries.droneCore, matBlack);
-            g.add(core);
-            const positions = [[0,1,0], [0,-1,0], [1,0,0], [-1,0,0], [0,0,1], [0,0,-1]];
-            positions.forEach(p => {
-                const s = new THREE.Mesh(this.geometries.droneSpike, matGreen);
-                s.position.set(p[0]*0.6, p[1]*0.6, p[2]*0.6);
-                s.lookAt(new THREE.Vector3(p[0]*2, p[1]*2, p[2]*2));
-                s.rotation.x += Math.PI/2;
-                g.add(s);
+            phase.attacks.forEach((attack, k) => {
+                boss.attackTimers[k] -= dt;
+                if (boss.attackTimers[k] > 0) return;
+                boss.attackTimers[k] = attack.interval;
+                this.fireBossAttack(boss, attack);
             });
-            hp = 2 * hpMult; speed = 0.35 * speedMult; dmg = 2;
-        } 
-        else {
-            const ring = new THREE.Mesh(this.geometries.scoutRing, matGrey);
-            ring.rotation.x = Math.PI/2;
-            const eye = new THREE.Mesh(this.geometries.scoutEye, matRed);
-            g.add(ring, eye);
-            g.userData.rotates = true;
-            hp = 3.5 * hpMult; speed = 0.15 * speedMult; dmg = 1;
         }
+        boss.parts.forEach((p) => {
+            if (p.def.spin && !p.destroyed) { p.mesh.rotation.y += p.def.spin[0] * dt; p.mesh.rotation.z += p.def.spin[1] * dt; }
+        });
+    }
+
+    moveBoss(boss: ActiveBoss, movement: BossMovement, dt: number) {
+        const pos = boss.mesh.position;
+        boss.moveTimer += dt;
+        if (movement.type === 'patrol') {
+            if (boss.moveState === 'strafe') {
+                 pos.x = Math.sin(this.simTime * movement.speed) * movement.amplitude;
+                 if (boss.moveTimer > movement.strafeTime) { boss.moveState = 'centering'; boss.moveTimer = 0; }
+            } else if (boss.moveState === 'centering') {
+                 pos.x = THREE.MathUtils.lerp(pos.x, 0, dt * 8); 
+                 if (Math.abs(pos.x) < 0.5 || boss.moveTimer > movement.centerTime) { boss.moveState = 'holding'; boss.moveTimer = 0; }
+            } else if (boss.moveState === 'holding') {
+                 pos.x = 0;
+                 if (boss.moveTimer > movement.holdTime) { boss.moveState = 'strafe'; boss.moveTimer = 0; }
+            }
+        } else if (movement.type === 'strafe') {
+            pos.x = Math.sin(this.simTime * movement.speed) * movement.amplitude;
+        } else if (movement.type === 'hover') {
+            pos.x = THREE.MathUtils.lerp(pos.x, 0, dt * 2);
+        } else if (movement.type === 'chase') {
+            const edge = this.arenaWidth - 7;
+            const dx = THREE.MathUtils.clamp(this.liveMouse3D.x, -edge, edge) - pos.x;
+            pos.x += THREE.MathUtils.clamp(dx, -movement.speed * dt, movement.speed * dt);
+        }
+    }
+
+    fireBossAttack(boss: ActiveBoss, attack: BossAttack) {
+        if (attack.type === 'summon') {
+            const alive = this.enemies.filter(e => e.userData.type === attack.enemy).length;
+            const spread = this.arenaWidth - 5; // inside the barriers, like timeline spawns
+            for (let i = 0; i < attack.count && alive + i < attack.max; i++) {
+                const at = boss.mesh.position.clone();
+                at.x = THREE.MathUtils.clamp(at.x + (i - (attack.count - 1) / 2) * 6, -spread, spread);
+                at.y -= 6;
+                this.spawnEnemy(attack.enemy, at);
+            }
+            return;
+        }
+
+        // Attacks mounted on a part die with it
+        const from = boss.mesh.position.clone(); from.y -= 4;
+        if (attack.from) {
+            const part = boss.parts.find((p) => p.def.id === attack.from);
+            if (!part || part.destroyed) return;
+            part.mesh.getWorldPosition(from);
+        }
+
+        if (attack.type === 'fan') {
+            for (let i = 0; i < attack.count; i++) {
+                const angle = (i - (attack.count - 1) / 2) * attack.spread;
+                this.fireEnemyBullet(from, new THREE.Vector3(Math.sin(angle) * attack.speed, -Math.cos(angle) * attack.speed, 0));
+            }
+        } else if (attack.type === 'spiral') {
+            for (let i = 0; i < attack.arms; i++) {
+                const angle = boss.spiralAngle + (i / attack.arms) * Math.PI * 2;
+                this.fireEnemyBullet(from, new THREE.Vector3(Math.sin(angle) * attack.speed, -Math.cos(angle) * attack.speed, 0));
+            }
+            boss.spiralAngle += attack.turn;
+        } else if (attack.type === 'aimed') {
+            const aim = Math.atan2(this.liveMouse3D.x - from.x, from.y - Math.min(this.liveMouse3D.y, from.y - 1));
+            for (let i = 0; i < attack.count; i++) {
+                const angle = aim + (i - (attack.count - 1) / 2) * attack.spread;
+                this.fireEnemyBullet(from, new THREE.Vector3(Math.sin(angle) * attack.speed, -Math.cos(angle) * attack.speed, 0));
+            }
+        }
+        const count = attack.type === 'spiral' ? attack.arms : attack.count;
+        this.events.emit('enemyFired', { source: boss.def.id, boss: true, x: from.x, y: from.y, count });
+    }
+
+    damageBossParts(boss: ActiveBoss, pos: THREE.Vector3, radius: number, damage: number) {
+        const world = new THREE.Vector3();
+        boss.parts.forEach((p) => {
+            if (p.destroyed || !p.maxHp) return;
+            p.mesh.getWorldPosition(world);
+            if (world.distanceTo(pos) >= radius + (p.def.hitRadius || 2)) return;
+            p.hp -= damage;
+            if (p.hp <= 0) {
+                p.destroyed = true;
+                p.mesh.parent?.remove(p.mesh);
+                if (p.def.reward) this.onStateUpdate({ money: this.currentState.money + this.reward(p.def.reward) });
+            }
+        });
+    }
+
+    spawnEnemy(typeId?: string, at?: THREE.Vector3) {
+        const endless = this.mode === 'endless';
+        const difficulty = endless ? endlessDifficulty(this.endless.time) : this.currentStageConfig?.difficulty || 0;
+        // Endless has no waves; every archetype is unlocked from the start
+        const currentWave = endless ? Infinity : this.currentState.wave;
+
+        const type = typeId || pickEnemyType(this.rng, difficulty, currentWave);
+        const def = ENEMY_DEFS[type] || ENEMY_DEFS.scout;
+        const mult = endless ? endlessScale(this.endless.time) : enemyScale(def, currentWave);
+        const hp = def.hp * mult.hp;
+        const speed = def.speed * mult.speed;
+
+        const g = new THREE.Group();
+        def.parts.forEach(part => {
+            const mesh = markPart(new THREE.Object3D(), part.geometry, part.material);
+            if (part.position) mesh.position.set(part.position[0], part.position[1], part.position[2]);
+            if (part.lookAt) mesh.lookAt(new THREE.Vector3(part.lookAt[0], part.lookAt[1], part.lookAt[2]));
+            if (part.rotation) {
+                mesh.rotation.x += part.rotation[0];
+                mesh.rotation.y += part.rotation[1];
+                mesh.rotation.z += part.rotation[2];
+            }
+            g.add(mesh);
+        });
         
-        // SPAWN RANGE: 60 (fits within 35 radius arena)
-        g.position.set((Math.random()-0.5)*60, 45, 0); 
+        // SPAWN RANGE: 5 units inside the barriers
+        if (at) g.position.copy(at);
+        else g.position.set((this.rng.next()-0.5)*(this.arenaWidth-5)*2, 45, 0); 
         
         const hpGroup = new THREE.Group();
-        hpGroup.position.set(0, 3.5, 0); 
-        const bg = new THREE.Mesh(this.geometries.hpBg, this.materials.hpBg);
-        const fg = new THREE.Mesh(this.geometries.hpFg, this.materials.hpFg);
+        hpGroup.position.set(0, def.hpBarY ?? 3.5, 0); 
+        const bg = markPart(new THREE.Object3D(), 'hpBg', 'hpBg');
+        const fg = markPart(new THREE.Object3D(), 'hpFg', 'hpFg');
         fg.position.z = 0.05; fg.position.x = -1.45;
         hpGroup.add(bg, fg);
         g.add(hpGroup);
         
-        g.userData = { ...g.userData, velocity: new THREE.Vector3(0, -speed, 0), hp, maxHp: hp, dmg, hpBar: fg };
+        const behaviours = (def.behaviours || []).filter(b => difficulty >= (b.minDifficulty || 0));
+        const shieldChance = def.shieldChance ? def.shieldChance[Math.min(difficulty, def.shieldChance.length - 1)] : 0;
+        let shield: THREE.Object3D | null = null;
+        if (shieldChance > 0 && this.rng.next() < shieldChance) {
+            shield = markPart(new THREE.Object3D(), 'enemyShield', 'enemyShield');
+            g.add(shield);
+        }
+
+        g.userData = {
+            type, velocity: new THREE.Vector3(0, -speed, 0), hp, maxHp: hp, dmg: def.dmg, reward: def.reward, spin: def.spin || 0, hpBar: fg,
+            behaviours, age: this.rng.next() * Math.PI * 2, nextShot: 1 + this.rng.next() * 2, shield, flashTime: 0
+        };
         
+        this.attachCue(g, def.cue || A11Y.defaultCue, 'cue');
+
         this.scene.add(g);
         this.enemies.push(g);
+        this.enemyGridStale = true;
+        return g;
     }
 
-    createMissileGroup(type: 'normal'|'big'|'nuke') {
-        const g = new THREE.Group();
-        if (type === 'nuke') {
-            const body = new THREE.Mesh(this.geometries.nukeMain, this.materials.nukeBody); 
-            body.rotation.x = Math.PI/2;
-            const nose = new THREE.Mesh(this.geometries.nukeNose, this.materials.nukeBody);
-            nose.position.y = 4.75; 
-            body.add(nose);
-            const tail = new THREE.Mesh(this.geometries.nukeTail, this.materials.nukeBody);
-            tail.position.y = -4.25;
-            body.add(tail);
-            for(let i=0; i<4; i++) {
-                const fin = new THREE.Mesh(this.geometries.nukeFin, this.materials.nukeFins);
-                fin.position.set(0, -4.5, 0);
-                fin.rotation.y = (Math.PI/2) * i;
-                fin.translateZ(1.2);
-                body.add(fin);
-            }
-            g.add(body);
-        } else if (type === 'big') {
-            const body = new THREE.Mesh(this.geometries.bigBody, this.materials.bigBody); body.rotation.x = Math.PI/2;
-            const nose = new THREE.Mesh(this.geometries.bigNose, this.materials.bigGlass); nose.position.z = 1.75; nose.rotation.x = Math.PI/2;
-            g.add(body, nose);
-        } else {
-            const body = new THREE.Mesh(this.geometries.smallBody, this.materials.stdBody); body.rotation.x = Math.PI/2;
-            const head = new THREE.Mesh(this.geometries.smallHead, this.materials.stdBody); head.position.z = 1.5; 
-            const fin = new THREE.Mesh(new THREE.BoxGeometry(0.1, 0.5, 0.5), this.materials.stdDark); fin.position.set(0,0.2,-1.3);
-            g.add(body, head, fin);
+    updateEnemyBehaviours(e: THREE.Group, dt: number) {
+        const d = e.userData;
+        d.age += dt;
+        for (const b of d.behaviours) {
+            if (b.type === 'zigzag') {
+                // Derivative of amplitude * sin(freq * t) so the weave is centred on the spawn line
+                d.velocity.x = b.amplitude * b.frequency * Math.cos(b.frequency * d.age);
+            } else if (b.type === 'homing') {
+                const dx = this.liveMouse3D.x - e.position.x;
+                d.velocity.x = THREE.MathUtils.clamp(d.velocity.x + Math.sign(dx) * b.accel * dt, -b.maxDrift, b.maxDrift);
+            } else if (b.type === 'shooter') {
+                d.nextShot -= dt;
+                if (d.nextShot <= 0 && e.position.y < 40 && e.position.y > -20) {
+                    const aim = new THREE.Vector3(this.liveMouse3D.x - e.position.x, -35 - e.position.y, 0).normalize();
+                    this.fireEnemyBullet(e.position, aim.multiplyScalar(b.bulletSpeed));
+                    this.events.emit('enemyFired', { source: e.userData.type, boss: false, x: e.position.x, y: e.position.y, count: 1 });
+                    d.nextShot = b.interval;
+                }
+            }
+        }
+        // Keep weaving/drifting units inside the arena
+        const edge = this.arenaWidth - 2;
+        if (e.position.x > edge || e.position.x < -edge) {
+            e.position.x = e.position.x > edge ? edge : -edge;
+            d.velocity.x *= -1;
         }
+    }
+
+    fireEnemyBullet(from: THREE.Vector3, velocity: THREE.Vector3) {
+        // The root moves, the child is drawn (addTree skips roots)
+        const bull = new THREE.Object3D();
+        bull.add(markPart(new THREE.Object3D(), 'enemyBullet', 'bullet'));
+        bull.position.copy(from);
+        bull.userData = { velocity };
+        this.attachCue(bull, { shape: 'circle', radius: A11Y.bulletCueRadius }, 'bulletCue');
+        this.scene.add(bull);
+        this.enemyBullets.push(bull);
+        this.bulletGridStale = true;
+        return bull;
+    }
+
+    createMissileGroup(type: WeaponId) {
+        const def = WEAPON_DEFS[type] || WEAPON_DEFS.normal;
+        const g = new THREE.Group();
+        const build = (part: WeaponPart, parent: THREE.Object3D) => {
+            const node = markPart(new THREE.Object3D(), part.geometry, part.material);
+            if (part.position) node.position.set(part.position[0], part.position[1], part.position[2]);
+            if (part.rotation) node.rotation.set(part.rotation[0], part.rotation[1], part.rotation[2]);
+            (part.children || []).forEach(child => build(child, node));
+            parent.add(node);
+        };
+        def.parts.forEach(part => build(part, g));
         return g;
     }
 
-    spawnMissile(type: 'normal' | 'big' | 'nuke'): string | boolean {
+    spawnMissile(type: WeaponId, aimAt: THREE.Vector3 = this.liveMouse3D): string | boolean {
+        const def = WEAPON_DEFS[type];
+        if (!def) return false;
+        if (this.isCombatMode() && !classHasWeapon(this.currentState.playerClass, type)) return 'LOCKED';
         const activeCount = this.missiles.filter(m => m.userData.type === type).length;
-        if (type === 'nuke' && activeCount >= 1 && this.mode !== 'casual') return 'LIMIT';
-        if (type === 'big' && activeCount >= 5 && this.mode !== 'casual') return 'LIMIT';
+        if (def.activeLimit !== undefined && activeCount >= def.activeLimit && this.isCombatMode()) return 'LIMIT';
 
         const startPos = new THREE.Vector3(0, -45, 0);
         if (this.mode === 'casual') {
-            const angle = Math.random() * Math.PI * 2;
-            const dist = 70 + Math.random() * 20; 
+            const angle = this.rng.next() * Math.PI * 2;
+            const dist = 70 + this.rng.next() * 20; 
             startPos.set(Math.cos(angle) * dist, Math.sin(angle) * dist, 0);
         }
 
-        const target = this.liveMouse3D.clone(); target.z = 0;
-        
-        const upgrades = this.currentState.upgradeLevels;
-        const stats = type === 'big' ? upgrades.big : type === 'nuke' ? upgrades.nuke : upgrades.normal;
-        const speedLvl = stats.speed || 0;
-
-        let baseSpeed = 0.8;
-        if (type === 'big') baseSpeed = 0.6;
-        if (type === 'nuke') baseSpeed = 0.4;
+        const target = aimAt.clone(); target.z = 0;
         
-        let finalSpeed = baseSpeed + (speedLvl * 0.05);
+        // units/sec
+        const stats = this.weaponStats(type);
+        let finalSpeed = stats.speed;
         if (this.mode === 'casual') finalSpeed *= 0.8;
 
         const mesh = this.createMissileGroup(type);
         
-        if (type === 'nuke' && this.mode === 'story') {
+        if (def.siloLaunch && this.isCombatMode()) {
              mesh.position.set(0, -60, 0); 
              mesh.userData = { type, state: 'launching', launchTime: 0, targetPos: target, finalSpeed };
              mesh.rotation.x = -Math.PI/2; 
@@ -477,252 +1028,408 @@ export class GameEngine {
              mesh.position.copy(startPos);
              mesh.lookAt(startPos.clone().add(dir));
              mesh.userData = { type, velocity: dir.multiplyScalar(finalSpeed), speed: finalSpeed };
+             if (def.guidance) {
+                 mesh.userData.targetPos = target;
+                 mesh.userData.lock = this.findLockTarget(target, stats.lockRange!);
+             }
         }
 
         this.scene.add(mesh);
         this.missiles.push(mesh);
+        this.events.emit('missileFired', { weapon: type, x: mesh.position.x, y: mesh.position.y, targetX: target.x, targetY: target.y });
         return true;
     }
 
-    createExplosion(pos: THREE.Vector3, type: string) {
-        if (type === 'nuke') {
-            this.createNukeExplosion(pos);
-            return;
-        }
+    // --- CLASS ---
 
-        let count = 500, maxAge = 60, size = 1.0;
-        const upgrades = this.currentState.upgradeLevels;
-        const radLevel = (type === 'big' ? upgrades.big.radius : upgrades.normal.radius) || 0;
-        const baseRad = type === 'big' ? 18 : 6;
-        const effectiveRad = baseRad + (radLevel * (type === 'big' ? 3 : 1.5)); 
-        
-        count += Math.floor(radLevel * 100);
-        
-        const positions = new Float32Array(count * 3);
-        const velocities = [];
-        const colors = [];
-        const palette = type === 'big' ? [0x2563eb, 0x60a5fa] : [0xf97316, 0xff8800];
+    playerClass(): ClassDef {
+        return classDef(this.currentState.playerClass);
+    }
 
-        for(let i=0; i<count; i++) {
-            positions[i*3] = pos.x + (Math.random()-0.5); 
-            positions[i*3+1] = pos.y + (Math.random()-0.5); 
-            positions[i*3+2] = pos.z + (Math.random()-0.5);
-            const v = new THREE.Vector3().randomDirection().multiplyScalar(effectiveRad * 0.05);
-            velocities.push(v);
-            const col = new THREE.Color(palette[Math.floor(Math.random()*palette.length)]);
-            colors.push(col.r, col.g, col.b);
+    // Fires the class ability at the cursor; 'COOLDOWN' while recharging
+    useAbility(): string | boolean {
+        const ability = this.playerClass().ability;
+        if (!ability || !this.isCombatMode() || !this.isRunning) return false;
+        if (this.abilityCooldown > 0) return 'COOLDOWN';
+        if (this.mode === 'story') this.recorder?.recordAbility(this.tickCount, this.liveMouse3D.x, this.liveMouse3D.y);
+
+        if (ability.type === 'salvo') {
+            for (let i = 0; i < ability.count; i++) {
+                const offset = (i - (ability.count - 1) / 2) * ability.spread;
+                this.spawnMissile(ability.weapon, this.liveMouse3D.clone().add(new THREE.Vector3(offset, 0, 0)));
+            }
+        } else if (ability.type === 'emp') {
+            this.enemyBullets.forEach(b => this.scene.remove(b));
+            this.enemyBullets = [];
+            this.bulletGridStale = true;
+            for (const e of this.enemies) {
+                if (e.userData.shield) { e.remove(e.userData.shield); e.userData.shield = null; }
+            }
+        } else if (ability.type === 'overdrive') {
+            this.overdriveTime = ability.duration;
         }
+        this.abilityCooldown = ability.cooldown;
+        this.events.emit('abilityUsed', { type: ability.type, x: this.liveMouse3D.x, y: this.liveMouse3D.y });
+        return true;
+    }
 
-        const geo = new THREE.BufferGeometry();
-        geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-        geo.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
-        const mat = new THREE.PointsMaterial({
-            size: size + (radLevel * 0.1), vertexColors: true, map: this.particleTexture, 
-            blending: THREE.AdditiveBlending, depthWrite: false, transparent: true
+    abilityStatus(): AbilityStatus | null {
+        const ability = this.playerClass().ability;
+        if (!ability) return null;
+        return {
+            type: ability.type,
+            ready: this.abilityCooldown <= 0,
+            cooldown: ability.cooldown,
+            cooldownLeft: Math.ceil(this.abilityCooldown * 10) / 10,
+            activeLeft: Math.ceil(this.overdriveTime * 10) / 10
+        };
+    }
+
+    // --- WEAPONS ---
+
+    // Level per stat for a weapon; tracks missing from older saves count as 0
+    weaponLevels(id: WeaponId): Record<string, number> {
+        return levelsFor(this.currentState, id);
+    }
+
+    // Levels and the global stat multipliers folded into the numbers that fly
+    weaponStats(id: WeaponId): EffectiveWeaponStats {
+        return effectiveWeaponStats(WEAPON_DEFS[id] || WEAPON_DEFS.normal, this.weaponLevels(id), this.currentState.stats, this.playerClass().perks);
+    }
+
+    effectiveStats(): EffectiveStats {
+        return effectiveStats(this.currentState);
+    }
+
+    reward(amount: number) {
+        return scaleReward(amount, this.currentState.upgradeLevels.moneyMult);
+    }
+
+    // Shop actions; both return false when nothing changed
+    buyUpgrade(track: WeaponId | 'moneyMult', stat?: string): boolean {
+        const changes = purchaseUpgrade(this.currentState, track, stat);
+        if (!changes) return false;
+        this.onStateUpdate(changes);
+        return true;
+    }
+
+    buyClass(id: string): boolean {
+        const changes = purchaseClass(this.currentState, id);
+        if (!changes) return false;
+        this.onStateUpdate(changes);
+        return true;
+    }
+
+    respec(): boolean {
+        const changes = respec(this.currentState);
+        if (changes.money === this.currentState.money) return false;
+        this.onStateUpdate(changes);
+        return true;
+    }
+
+    // One HUD slot per weapon in registry order
+    weaponSlots() {
+        const { ammo, maxAmmo } = this.currentState;
+        return Object.values(WEAPON_DEFS).map(def => ({
+            id: def.id,
+            name: def.name,
+            color: def.color,
+            ammo: ammo[def.id] || 0,
+            maxAmmo: maxAmmo[def.id] ?? def.maxAmmo,
+            reloadProgress: this.reloadProgress[def.id] ?? 1,
+            unlocked: classHasWeapon(this.currentState.playerClass, def.id),
+            selected: def.id === this.selectedWeapon
+        }));
+    }
+
+    // Armory columns: every upgradeable stat of every weapon with its next price
+    armory() {
+        return Object.values(WEAPON_DEFS).map(def => {
+            const levels = this.weaponLevels(def.id);
+            return {
+                id: def.id,
+                name: def.name,
+                color: def.color,
+                upgrades: def.upgrades.map(u => ({ ...u, level: levels[u.stat], cost: upgradeCost(levels[u.stat]) }))
+            };
         });
-        const points = new THREE.Points(geo, mat);
-        points.userData.velocities = velocities;
-        this.scene.add(points);
-        
-        this.particles.push({ points, age: 0, maxAge, type: 'expl', center: pos.clone(), radius: effectiveRad });
+    }
 
-        const dmgLevel = (type === 'big' ? upgrades.big.dmg : upgrades.normal.dmg) || 0;
-        const baseDmg = type === 'big' ? 12 : 2; 
-        let totalDmg = baseDmg + (dmgLevel * (type === 'big' ? 3 : 1));
-        
-        const critLevel = (type === 'big' ? upgrades.big.crit : upgrades.normal.crit) || 0;
-        if (critLevel > 0 && Math.random() < (critLevel * 0.05)) totalDmg *= 2;
+    // The boss wins if the cursor is over it, otherwise the nearest enemy in range
+    findLockTarget(at: THREE.Vector3, range: number): THREE.Object3D | null {
+        const boss = this.bossActive;
+        if (boss && boss.mesh.position.distanceTo(at) < range + boss.def.hitRadius) return boss.mesh;
+        let best: THREE.Object3D | null = null;
+        let bestDist = range;
+        for (const e of this.enemiesNear(at, range)) {
+            const d = e.position.distanceTo(at);
+            if (d < bestDist) { best = e; bestDist = d; }
+        }
+        return best;
+    }
+
+    // What a guided shot fired now would lock onto, for the HUD reticle
+    lockPreview(weapon: WeaponId): { x: number, y: number, boss: boolean } | null {
+        if (!WEAPON_DEFS[weapon]?.guidance || !this.isCombatMode()) return null;
+        const target = this.findLockTarget(this.liveMouse3D, this.weaponStats(weapon).lockRange!);
+        if (!target) return null;
+        return { x: target.position.x, y: target.position.y, boss: target === this.bossActive?.mesh };
+    }
+
+    steerGuided(m: THREE.Group, dt: number) {
+        const d = m.userData;
+        const stats = this.weaponStats(d.type);
+        if (d.lock && !d.lock.parent) {
+            d.lock = this.findLockTarget(m.position, stats.lockRange!);
+        }
+        const aim = d.lock ? d.lock.position : d.targetPos;
+        steerTowards(d.velocity, m.position, aim, stats.turnRate! * dt);
+        m.lookAt(m.position.clone().add(d.velocity));
+    }
+
+    createExplosion(pos: THREE.Vector3, type: string) {
+        const def = WEAPON_DEFS[type] || WEAPON_DEFS.normal;
+        const stats = this.weaponStats(def.id);
+        const effectiveRad = stats.blastRadius;
+
+        const ex = this.explosionVisual(def.id);
+        if (ex.kind === 'nuke') this.createNukeVisual(pos, ex, effectiveRad);
+        else this.createBurstVisual(pos, ex, effectiveRad, this.weaponLevels(def.id).radius || 0);
+
+        let totalDmg = stats.damage;
+        const crit = stats.critChance > 0 && this.rng.next() < stats.critChance;
+        if (crit) {
+            totalDmg *= CRIT_MULTIPLIER;
+            this.createCritVisual(pos, effectiveRad);
+            this.onStateUpdate({ lastCrit: { x: pos.x, y: pos.y, damage: totalDmg, tick: this.tickCount } });
+        }
+        this.events.emit('explosion', { weapon: def.id, x: pos.x, y: pos.y, radius: effectiveRad, damage: totalDmg, crit });
 
         this.checkDamage(pos, effectiveRad, totalDmg);
     }
 
-    createNukeExplosion(pos: THREE.Vector3) {
-        const upgrades = this.currentState.upgradeLevels;
-        const radLevel = upgrades.nuke.radius || 0;
-        const effectiveRad = 60 + (radLevel * 10);
-        
-        let count = 5000;
-        let maxAge = 120;
+    createBurstVisual(pos: THREE.Vector3, ex: ExplosionVisual, effectiveRad: number, radLevel: number) {
+        const count = this.sparkCount(ex.count + Math.floor(radLevel * (ex.countPerRadiusLevel || 0)), this.sparks);
+        const maxAge = ex.maxAge * this.perf.budget.lifetimeScale;
+        const speed = effectiveRad * ex.spread * this.particleMotion();
+        const size = 1 + radLevel * (ex.sizePerRadiusLevel || 0);
+        const at = new THREE.Vector3(), v = new THREE.Vector3(), col = new THREE.Color();
+        for(let i=0; i<count; i++) {
+            at.set(pos.x + (Math.random()-0.5), pos.y + (Math.random()-0.5), pos.z + (Math.random()-0.5));
+            v.randomDirection().multiplyScalar(speed);
+            col.setHex(ex.palette[Math.floor(Math.random()*ex.palette.length)]);
+            this.sparks.emit(at, v, col, maxAge, size);
+        }
         
-        const geo = new THREE.BufferGeometry();
-        const positions = new Float32Array(count * 3);
-        const velocities = [];
-        const colors = [];
-        const palette = [0x00ff00, 0x33ff33, 0x008800, 0xccffcc]; 
+        this.particles.push({ age: 0, maxAge: ex.maxAge, type: 'expl', center: pos.clone(), radius: effectiveRad });
+    }
+
+    // White-gold ring on top of the normal burst so crits read at a glance
+    createCritVisual(pos: THREE.Vector3, effectiveRad: number) {
+        const v = new THREE.Vector3(), col = new THREE.Color();
+        const count = this.sparkCount(160, this.sparks);
+        const maxAge = 0.6 * this.perf.budget.lifetimeScale;
+        for (let i = 0; i < count; i++) {
+            const angle = (i / count) * Math.PI * 2;
+            v.set(Math.cos(angle), Math.sin(angle), 0).multiplyScalar(effectiveRad * 4 * this.particleMotion());
+            col.setHex(i % 2 ? 0xffffff : 0xfde047);
+            this.sparks.emit(pos, v, col, maxAge, 1.2);
+        }
+    }
 
+    createNukeVisual(pos: THREE.Vector3, ex: ExplosionVisual, effectiveRad: number) {
+        const v = new THREE.Vector3(), col = new THREE.Color();
+        const count = this.sparkCount(ex.count, this.nukeSparks);
+        const lifetimeScale = this.perf.budget.lifetimeScale;
+        const speed = effectiveRad * ex.spread * this.particleMotion();
+        // Additive sparks: dimming the colour caps the glare of thousands at once
+        const glare = this.accessibility.flashCap;
         for(let i=0; i<count; i++) {
-            positions[i*3] = pos.x; positions[i*3+1] = pos.y; positions[i*3+2] = pos.z;
-             const v = new THREE.Vector3().randomDirection().multiplyScalar(effectiveRad * 0.03);
-            velocities.push(v);
-            const col = new THREE.Color(palette[Math.floor(Math.random()*palette.length)]);
-            colors.push(col.r, col.g, col.b);
+            v.randomDirection().multiplyScalar(speed);
+            col.setHex(ex.palette[Math.floor(Math.random()*ex.palette.length)]).multiplyScalar(glare);
+            this.nukeSparks.emit(pos, v, col, ex.maxAge * lifetimeScale);
         }
-        geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-        geo.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
-        const mat = new THREE.PointsMaterial({ size: 3.0, vertexColors: true, map: this.particleTexture, blending: THREE.AdditiveBlending, transparent: true });
-        const points = new THREE.Points(geo, mat);
-        this.scene.add(points);
-
-        this.particles.push({ 
-            points, age: 0, maxAge, type: 'sphere', velocities, 
-            center: pos.clone(), radius: effectiveRad 
-        });
 
-        const fireball = new THREE.Mesh(
-            new THREE.SphereGeometry(1, 32, 32),
-            new THREE.MeshBasicMaterial({ color: 0xaaffaa, transparent: true, opacity: 0.9, blending: THREE.AdditiveBlending })
-        );
+        this.particles.push({ age: 0, maxAge: ex.maxAge, type: 'sphere', center: pos.clone(), radius: effectiveRad });
+
+        const fireball = this.freeFireballs.pop() || new THREE.Mesh(this.geometries.fireball, this.resources.track(this.materials.fireball.clone()));
+        (fireball.material as THREE.MeshBasicMaterial).color.copy((this.materials.fireball as THREE.MeshBasicMaterial).color);
         fireball.position.copy(pos);
+        fireball.scale.setScalar(0.001);
         this.scene.add(fireball);
-        this.particles.push({ type: 'fireball', mesh: fireball, age: 0, maxAge: 80, maxRadius: effectiveRad * 0.8 });
+        this.particles.push({ type: 'fireball', mesh: fireball, age: 0, maxAge: 1.33 * lifetimeScale, maxRadius: effectiveRad * 0.8 });
+    }
+
+    // --- BROAD PHASE ---
+    // Candidates only; removed entities (no parent) may linger until the next rebuild
 
-        this.checkDamage(pos, effectiveRad, 100 + (upgrades.nuke.dmg||0)*20);
+    enemiesNear(pos: THREE.Vector3, radius: number): THREE.Group[] {
+        if (!this.useSpatialGrid) return this.enemies.slice();
+        if (this.enemyGridStale) {
+            this.enemyGrid.clear();
+            for (const e of this.enemies) this.enemyGrid.insert(e, e.position.x, e.position.y);
+            this.enemyGridStale = false;
+        }
+        return this.enemyGrid.query(pos.x, pos.y, radius).filter(e => e.parent);
     }
 
-    checkDamage(pos: THREE.Vector3, radius: number, damage: number) {
-        if (this.mode !== 'story') return; 
+    bulletsNear(pos: THREE.Vector3, radius: number): THREE.Object3D[] {
+        if (!this.useSpatialGrid) return this.enemyBullets.slice();
+        if (this.bulletGridStale) {
+            this.bulletGrid.clear();
+            for (const b of this.enemyBullets) this.bulletGrid.insert(b, b.position.x, b.position.y);
+            this.bulletGridStale = false;
+        }
+        return this.bulletGrid.query(pos.x, pos.y, radius).filter(b => b.parent);
+    }
 
-        for (let i = this.enemies.length - 1; i >= 0; i--) {
-            if (this.enemies[i].position.distanceTo(pos) < radius) {
-                const e = this.enemies[i];
+    // Blast zones move with nothing, so one rebuild per bullet pass is enough
+    rebuildBlastGrid() {
+        this.blastGrid.clear();
+        for (const p of this.particles) {
+            if (p.center && p.radius) this.blastGrid.insertCircle(p, p.center.x, p.center.y, p.radius);
+        }
+    }
+
+    blastsAt(pos: THREE.Vector3): any[] {
+        if (!this.useSpatialGrid) return this.particles;
+        return this.blastGrid.query(pos.x, pos.y, 0);
+    }
+
+    removeEnemy(e: THREE.Group) {
+        this.scene.remove(e);
+        const i = this.enemies.indexOf(e);
+        if (i !== -1) this.enemies.splice(i, 1);
+    }
+
+    checkDamage(pos: THREE.Vector3, radius: number, damage: number) {
+        if (!this.isCombatMode()) return; 
+
+        for (const e of this.enemiesNear(pos, radius)) {
+            if (e.position.distanceTo(pos) < radius) {
+                if (e.userData.shield) {
+                    e.remove(e.userData.shield);
+                    e.userData.shield = null;
+                    continue;
+                }
                 e.userData.hp -= damage;
                 if (e.userData.hpBar) e.userData.hpBar.scale.set(Math.max(0, e.userData.hp / e.userData.maxHp), 1, 1);
-                e.traverse((c: any) => {
-                    if (c.isMesh && c.material.emissive) {
-                        c.material.emissive.setHex(0xffffff);
-                        setTimeout(() => c.material.emissive.setHex(c.userData.origEmissive || 0x000000), 50);
-                    }
-                });
+                e.userData.flashTime = 0.05;
 
                 if (e.userData.hp <= 0) {
-                    this.scene.remove(e);
-                    this.enemies.splice(i, 1);
-                    // FIXED REWARD: 20
-                    this.onStateUpdate({ money: this.currentState.money + 20 });
+                    this.removeEnemy(e);
+                    const reward = e.userData.reward ?? 20;
+                    this.onStateUpdate({ money: this.currentState.money + this.reward(reward) });
+                    this.events.emit('enemyKilled', { type: e.userData.type, x: e.position.x, y: e.position.y, reward });
+                    if (this.mode === 'endless') { this.endless.kills++; this.endless.killScore += reward; }
+                    const split = ENEMY_DEFS[e.userData.type]?.splitInto;
+                    if (split) {
+                        for (let k = 0; k < split.count; k++) {
+                            const offset = new THREE.Vector3((k - (split.count - 1) / 2) * 2.5, 0, 0);
+                            this.spawnEnemy(split.id, e.position.clone().add(offset));
+                        }
+                    }
                 }
             }
         }
-        if (this.bossActive && this.bossActive.mesh.position.distanceTo(pos) < radius + 10) {
+        if (this.bossActive) this.damageBossParts(this.bossActive, pos, radius, damage);
+        if (this.bossActive && this.bossActive.mesh.position.distanceTo(pos) < radius + this.bossActive.def.hitRadius) {
             this.bossActive.hp -= damage;
-            this.onStateUpdate({ bossStatus: { name: 'VOID MOTHERSHIP', hp: Math.max(0, this.bossActive.hp), maxHp: this.bossActive.maxHp } });
+            this.onStateUpdate({ bossStatus: this.bossStatus() });
 
             if(this.bossActive.hp<=0) {
+                 const reward = this.bossActive.def.reward;
+                 if (this.mode === 'endless') { this.endless.kills++; this.endless.killScore += reward; }
+                 const at = this.bossActive.mesh.position;
+                 this.events.emit('bossDefeated', { name: this.bossActive.def.name, x: at.x, y: at.y, reward });
                  this.scene.remove(this.bossActive.mesh);
                  this.bossActive = null;
-                 this.enemyBullets.forEach(b => this.scene.remove(b));
+                 // Summoned escorts go down with the boss
+                 [...this.enemyBullets, ...this.enemies].forEach(o => this.scene.remove(o));
                  this.enemyBullets = [];
-                 this.onStateUpdate({ money: this.currentState.money + 1000, bossStatus: null }); 
-                 this.onWaveComplete();
+                 this.enemies = [];
+                 this.onStateUpdate({ money: this.currentState.money + this.reward(reward), bossStatus: null }); 
             }
         }
     }
 
-    update() {
-        if (!this.isRunning || this.isPaused) return;
+    update(dt: number) {
+        if (!this.isRunning || this.isPaused) {
+            this.input.endStep();
+            return;
+        }
 
-        const now = performance.now();
-        const dt = Math.min((now - this.lastTime) / 1000, 0.1); 
-        this.lastTime = now;
+        this.updateInput(dt);
+        if (this.mode === 'story') this.recorder?.recordAim(this.tickCount, this.liveMouse3D.x, this.liveMouse3D.y);
+        this.tickCount++;
+        this.simTime += dt;
 
-        if (this.mode === 'story') {
-            const upgrades = this.currentState.upgradeLevels;
+        if (this.isCombatMode()) {
             const maxAmmo = this.currentState.maxAmmo;
-            let ammo = { ...this.currentState.ammo }; 
+            const ammo: Record<WeaponId, number> = { ...this.currentState.ammo };
             let updatedAmmo = false;
-            
-            const normalDur = Math.max(0.1, 1.0 - ((upgrades.normal.reload||0) * 0.08)); 
-            const bigDur = Math.max(0.5, 5.0 - ((upgrades.big.reload||0) * 0.4));
-            const nukeDur = Math.max(5.0, 20.0 - ((upgrades.nuke.reload||0) * 1.0));
-
-            if (ammo.normal < maxAmmo.normal) {
-                this.regenCounters.normal += dt;
-                if (this.regenCounters.normal >= normalDur) { ammo.normal++; this.regenCounters.normal = 0; updatedAmmo = true; }
-            }
-            if (this.currentState.playerClass !== 'c' && ammo.big < maxAmmo.big) {
-                this.regenCounters.big += dt;
-                if (this.regenCounters.big >= bigDur) { ammo.big++; this.regenCounters.big = 0; updatedAmmo = true; }
-            }
-            if (this.currentState.playerClass === 'a' && ammo.nuke < maxAmmo.nuke) {
-                this.regenCounters.nuke += dt;
-                if (this.regenCounters.nuke >= nukeDur) { ammo.nuke++; this.regenCounters.nuke = 0; updatedAmmo = true; }
-            }
-
-            const updates: any = { 
-                reloadProgress: {
-                    normal: ammo.normal >= maxAmmo.normal ? 1 : this.regenCounters.normal / normalDur,
-                    big: ammo.big >= maxAmmo.big ? 1 : this.regenCounters.big / bigDur,
-                    nuke: ammo.nuke >= maxAmmo.nuke ? 1 : this.regenCounters.nuke / nukeDur
-                },
-                reloadTimeLeft: {
-                    normal: Math.ceil((normalDur - this.regenCounters.normal)*10)/10,
-                    big: Math.ceil((bigDur - this.regenCounters.big)*10)/10,
-                    nuke: Math.ceil((nukeDur - this.regenCounters.nuke)*10)/10
+            this.abilityCooldown = Math.max(0, this.abilityCooldown - dt);
+            this.overdriveTime = Math.max(0, this.overdriveTime - dt);
+            const ability = this.playerClass().ability;
+            const overdrive = this.overdriveTime > 0 && ability?.type === 'overdrive' ? ability.regenRate : 1;
+
+            for (const def of Object.values(WEAPON_DEFS)) {
+                const id = def.id;
+                const dur = this.weaponStats(id).reload / overdrive;
+                const max = maxAmmo[id] ?? def.maxAmmo;
+                let counter = this.regenCounters[id] || 0;
+                if (classHasWeapon(this.currentState.playerClass, id) && (ammo[id] || 0) < max) {
+                    counter += dt;
+                    if (counter >= dur) { ammo[id] = (ammo[id] || 0) + 1; counter = 0; updatedAmmo = true; }
                 }
-            };
-            if (updatedAmmo) updates.ammo = ammo;
-            this.onStateUpdate(updates);
-
-            if (this.bossActive) {
-                const boss = this.bossActive;
-                if (boss.state === 'entering') {
-                    boss.mesh.position.y -= 10 * dt; 
-                    if (boss.mesh.position.y <= 12) { boss.mesh.position.y = 12; boss.state = 'fighting'; }
-                } else {
-                    boss.moveTimer += dt;
-                    if (boss.moveState === 'strafe') {
-                         boss.mesh.position.x = Math.sin(now * 0.0008) * 30;
-                         if (boss.moveTimer > 10) { boss.moveState = 'centering'; boss.moveTimer = 0; }
-                    } else if (boss.moveState === 'centering') {
-                         boss.mesh.position.x = THREE.MathUtils.lerp(boss.mesh.position.x, 0, dt * 8); 
-                         if (Math.abs(boss.mesh.position.x) < 0.5 || boss.moveTimer > 3) { boss.moveState = 'holding'; boss.moveTimer = 0; }
-                    } else if (boss.moveState === 'holding') {
-                         boss.mesh.position.x = 0;
-                         if (boss.moveTimer > 4) { boss.moveState = 'strafe'; boss.moveTimer = 0; }
-                    }
+                this.regenCounters[id] = counter;
+                this.reloadProgress[id] = (ammo[id] || 0) >= max ? 1 : counter / dur;
+                this.reloadTimeLeft[id] = Math.ceil((dur - counter)*10)/10;
+            }
 
-                    boss.mesh.position.y = 12 + Math.sin(now * 0.002) * 2;
-                    boss.nextShot -= dt;
-                    if (boss.nextShot <= 0) {
-                        for(let i=-2; i<=2; i++) {
-                            const bull = new THREE.Mesh(this.geometries.enemyBullet, this.materials.bullet);
-                            bull.position.copy(boss.mesh.position); bull.position.y-=4;
-                            const angle = i * 0.2; 
-                            const speed = 8;
-                            bull.userData = { velocity: new THREE.Vector3(Math.sin(angle) * speed, -Math.cos(angle) * speed, 0) };
-                            this.scene.add(bull); this.enemyBullets.push(bull);
-                        }
-                        boss.nextShot = 1.5; 
-                    }
-                }
-                boss.mesh.children[2].rotation.y += dt; 
-                boss.mesh.children[2].rotation.z += dt * 0.5;
+            this.sinceLastHit += dt;
+            if (this.sinceLastHit >= DEFENSE.shieldRechargeDelay && this.shieldHp < this.shieldMax) {
+                this.shieldHp = Math.min(this.shieldMax, this.shieldHp + DEFENSE.shieldRechargeRate * dt);
+                this.refreshDefenseVisuals();
             }
 
-            if (!this.bossActive && this.enemiesToSpawn > 0) {
-                this.spawnTimer++;
-                const stageFreq = this.currentStageConfig?.freq || 100;
-                if (this.spawnTimer > stageFreq) {
-                    this.spawnEnemy();
-                    this.enemiesToSpawn--;
-                    this.spawnTimer = 0;
-                }
-            } else if (!this.bossActive && this.enemiesToSpawn === 0 && this.enemies.length === 0) {
-                this.onWaveComplete();
+            if (updatedAmmo) {
+                this.onStateUpdate({ ammo });
+            }
+            this.hudTimer -= dt;
+            if (this.hudTimer <= 0) {
+                this.hudTimer = EVENTS.hudInterval;
+                this.events.emit('hud', this.hudSnapshot());
             }
 
+            if (this.bossActive) this.updateBoss(this.bossActive, dt);
+            if (this.mode === 'endless') this.updateEndless(dt);
+            else this.updateStageSpawns(dt);
+
         } else if (this.mode === 'casual') {
-            if(this.particlesMesh) this.updateParticleWeb();
+            if(this.particlesMesh) this.updateParticleWeb(dt);
             this.casualSpawnCounter += dt;
             if (this.casualSpawnCounter > 1.0) {
-                const type = Math.random() < 0.1 ? 'nuke' : Math.random() < 0.4 ? 'big' : 'normal';
-                this.spawnMissile(type as any);
+                const type: WeaponId = this.rng.next() < 0.1 ? 'nuke' : this.rng.next() < 0.4 ? 'big' : 'normal';
+                this.spawnMissile(type);
                 this.casualSpawnCounter = 0;
             }
 
-            const timeSinceMove = performance.now() - this.lastMouseTime;
+            const timeSinceMove = this.platform.clock.now() - this.lastMouseTime;
             const isMouseMoving = timeSinceMove < 150; 
             
-            if (isMouseMoving) {
+            if (this.touches.size) {
+                // Each missile heads for the closest finger on the screen
+                const points = [...this.touches.values()].map(t => t.world);
+                this.missiles.forEach(m => {
+                    if (m.userData.state === 'launching') return;
+                    let target = points[0];
+                    for (const p of points) if (p.distanceToSquared(m.position) < target.distanceToSquared(m.position)) target = p;
+                    m.lookAt(target);
+                    const dir = new THREE.Vector3().subVectors(target, m.position).normalize();
+                    m.userData.velocity = dir.multiplyScalar(m.userData.speed);
+                });
+            } else if (isMouseMoving) {
                 const target = this.liveMouse3D.clone(); target.z = 0;
                 this.missiles.forEach(m => {
                     if (m.userData.state === 'launching') return;
@@ -738,16 +1445,15 @@ export class GameEngine {
             }
         }
 
-        this.mouse3D.lerp(this.liveMouse3D, 0.5);
+        this.mouse3D.lerp(this.liveMouse3D, 1 - Math.pow(0.5, dt * 60));
 
         for (let i = this.missiles.length - 1; i >= 0; i--) {
             const m = this.missiles[i];
             let intercepted = false;
-            for (let j = this.enemyBullets.length - 1; j >= 0; j--) {
-                const b = this.enemyBullets[j];
+            for (const b of this.bulletsNear(m.position, 3)) {
                 if (m.position.distanceTo(b.position) < 3) {
                      this.createExplosion(m.position, m.userData.type);
-                     this.scene.remove(b); this.enemyBullets.splice(j, 1);
+                     this.scene.remove(b); this.enemyBullets.splice(this.enemyBullets.indexOf(b), 1);
                      this.scene.remove(m); this.missiles.splice(i, 1);
                      intercepted = true; break; 
                 }
@@ -757,7 +1463,7 @@ export class GameEngine {
             if (m.userData.state === 'launching') {
                 m.userData.launchTime += dt;
                 m.position.y = -60 + (m.userData.launchTime / 5.0) * 20;
-                m.position.x = (Math.random() - 0.5) * 0.2;
+                m.position.x = (this.rng.next() - 0.5) * 0.2;
                 if (m.userData.launchTime >= 5.0) {
                     m.userData.state = 'flying';
                     const dir = new THREE.Vector3().subVectors(m.userData.targetPos, m.position).normalize();
@@ -765,143 +1471,648 @@ export class GameEngine {
                     m.lookAt(m.position.clone().add(dir));
                 }
             } else {
-                if (m.userData.velocity) m.position.add(m.userData.velocity);
+                if (WEAPON_DEFS[m.userData.type]?.guidance && this.isCombatMode()) this.steerGuided(m, dt);
+                if (m.userData.velocity) m.position.addScaledVector(m.userData.velocity, dt);
             }
             
             if (m.position.distanceTo(this.camera.position) > 200) {
                 this.scene.remove(m); this.missiles.splice(i, 1);
             }
-            if (this.mode === 'story' && m.userData.state !== 'launching') {
+            if (this.isCombatMode() && m.userData.state !== 'launching') {
                 let hit = false;
-                let hitDist = m.userData.type === 'big' ? 6 : m.userData.type === 'nuke' ? 8 : 4;
-                for(const e of this.enemies) {
+                const hitDist = (WEAPON_DEFS[m.userData.type] || WEAPON_DEFS.normal).hitRadius;
+                for(const e of this.enemiesNear(m.position, hitDist)) {
                      if (m.position.distanceTo(e.position) < hitDist) { this.createExplosion(m.position, m.userData.type); hit = true; break; }
                 }
-                if (!hit && this.bossActive && m.position.distanceTo(this.bossActive.mesh.position) < hitDist + 6) {
+                if (!hit && this.bossActive && m.position.distanceTo(this.bossActive.mesh.position) < hitDist + this.bossActive.def.contactRadius) {
                     this.createExplosion(m.position, m.userData.type); hit = true;
                 }
                 if (hit) { this.scene.remove(m); this.missiles.splice(i, 1); }
             }
         }
 
+        if (this.useSpatialGrid) this.rebuildBlastGrid();
+        this.bulletGridStale = true;
         for (let i = this.enemyBullets.length - 1; i >= 0; i--) {
             const b = this.enemyBullets[i];
             const move = b.userData.velocity.clone().multiplyScalar(dt);
             b.position.add(move);
             
-            // --- NEW: BOUNCE LOGIC (Arena 35 -> Bounce at 33) ---
-            if (b.position.x > 33 || b.position.x < -33) {
+            // --- NEW: BOUNCE LOGIC (2 units inside the barriers) ---
+            const edge = this.arenaWidth - 2;
+            if (b.position.x > edge || b.position.x < -edge) {
                 b.userData.velocity.x *= -1; 
-                b.position.x = b.position.x > 33 ? 33 : -33; 
+                b.position.x = b.position.x > edge ? edge : -edge; 
             }
             
             let intercepted = false;
-            for(const p of this.particles) {
+            for(const p of this.blastsAt(b.position)) {
                 if (p.center && p.radius && b.position.distanceTo(p.center) < p.radius) {
                     if (p.age < p.maxAge * 0.9) { intercepted = true; break; }
                 }
             }
             if (intercepted) { this.scene.remove(b); this.enemyBullets.splice(i, 1); continue; }
 
-            if (b.position.y < -50) { this.scene.remove(b); this.enemyBullets.splice(i, 1); continue; }
-            if (b.position.y < -35) { this.damagePlayer(3); this.scene.remove(b); this.enemyBullets.splice(i, 1); }
+            if (b.position.y < -50 || b.position.y > 60) { this.scene.remove(b); this.enemyBullets.splice(i, 1); continue; }
+            if (b.position.y < DEFENSE.lineY) { this.damagePlayer(3, b.position.x); this.scene.remove(b); this.enemyBullets.splice(i, 1); }
         }
 
+        this.enemyGridStale = true;
         for (let i = this.enemies.length - 1; i >= 0; i--) {
             const e = this.enemies[i];
-            e.position.add(e.userData.velocity);
-            if (e.userData.rotates) e.children[0].rotation.z += 0.05;
-            if (e.position.y < -35) {
-                this.damagePlayer(e.userData.dmg || 10);
+            if (e.userData.behaviours.length) this.updateEnemyBehaviours(e, dt);
+            e.position.addScaledVector(e.userData.velocity, dt);
+            if (e.userData.spin) e.children[0].rotation.z += e.userData.spin * dt;
+            if (e.userData.flashTime > 0) e.userData.flashTime -= dt;
+            if (e.position.y < DEFENSE.lineY) {
+                this.damagePlayer(e.userData.dmg || 10, e.position.x);
                 this.scene.remove(e);
                 this.enemies.splice(i, 1);
             }
         }
         
+        this.shake = Math.max(0, this.shake - DEFENSE.shakeDecay * dt);
+        this.flash = Math.max(0, this.flash - DEFENSE.flashDecay * dt);
+        this.post?.update(dt);
+
+        const drag = Math.pow(0.95, dt * 60);
+        this.sparks.update(dt, drag);
+        this.nukeSparks.update(dt, drag);
         for (let i = this.particles.length - 1; i >= 0; i--) {
             const p = this.particles[i];
-            p.age++;
-            const t = p.age / p.maxAge;
+            p.age += dt;
             
-            if (p.type === 'sphere') {
-                const pos = p.points.geometry.attributes.position.array;
-                const v = p.velocities;
-                for(let j=0; j<v.length; j++) {
-                    v[j].multiplyScalar(0.95);
-                    pos[j*3] += v[j].x; pos[j*3+1] += v[j].y; pos[j*3+2] += v[j].z;
-                }
-                p.points.geometry.attributes.position.needsUpdate = true;
-                p.points.material.opacity = Math.max(0, 1.0 - t);
-            } else if (p.type === 'fireball') {
+            if (p.type === 'fireball') {
                  const progress = p.age / p.maxAge;
                  let scale = 1;
                  if (progress < 0.2) scale = (progress / 0.2) * p.maxRadius;
                  else scale = p.maxRadius;
                  p.mesh.scale.set(scale, scale, scale);
-                 p.mesh.material.opacity = Math.max(0, 0.9 * (1 - progress));
-            } else {
-                const pos = p.points.geometry.attributes.position.array;
-                const v = p.points.userData.velocities;
-                if(v) {
-                    for(let j=0; j<v.length; j++) {
-                        v[j].multiplyScalar(0.95);
-                        pos[j*3] += v[j].x; pos[j*3+1] += v[j].y; pos[j*3+2] += v[j].z;
-                    }
-                    p.points.geometry.attributes.position.needsUpdate = true;
-                }
-                p.points.material.opacity = 1 - t;
+                 p.mesh.material.opacity = Math.max(0, 0.9 * this.accessibility.flashCap * (1 - progress));
             }
 
             if(p.age >= p.maxAge) { 
-                if (p.points) this.scene.remove(p.points); 
-                if (p.mesh) this.scene.remove(p.mesh);
+                if (p.mesh) this.releaseFireball(p.mesh);
                 this.particles.splice(i, 1); 
             }
         }
     }
 
-    damagePlayer(amount: number) {
-        if (this.mode === 'casual') return; 
-        let newHealth = this.currentState.health - amount;
+    releaseFireball(mesh: THREE.Mesh) {
+        this.scene.remove(mesh);
+        this.freeFireballs.push(mesh);
+    }
+
+    // A hit at x: the shield soaks what it can, the rest lands on the segment under x
+    damagePlayer(amount: number, x: number = 0) {
+        // Already over: later hits in the same tick must not end the run twice
+        if (this.mode === 'casual' || !this.isRunning) return; 
+        this.sinceLastHit = 0;
+        this.shake += amount * DEFENSE.shakePerDamage;
+        this.flash += amount * DEFENSE.flashPerDamage;
+        let absorbed = 0;
+        if (this.shieldHp > 0) {
+            absorbed = Math.min(this.shieldHp, amount);
+            this.shieldHp -= absorbed;
+        }
+        let index = -1;
+        if (amount > absorbed) {
+            index = hitSegment(this.segments, segmentIndexAt(x, this.segments.length, this.arenaWidth));
+            if (index >= 0) this.segments[index].hp = Math.max(0, this.segments[index].hp - (amount - absorbed));
+        }
+        this.refreshDefenseVisuals();
+
+        const newHealth = basePercent(this.segments);
+        this.onStateUpdate({ health: newHealth, defense: this.defenseStatus() });
+        this.currentState.health = newHealth;
+        this.events.emit('playerDamaged', { amount, x, absorbed, segment: index, health: newHealth });
         if (newHealth <= 0) {
-            newHealth = 0;
             this.isRunning = false;
-            this.onGameOver();
+            if (this.mode === 'endless') this.recordEndlessRun();
+            if (this.mode === 'story') this.recorder?.finish(this.currentState, this.tickCount);
+            this.events.emit('gameOver', { mode: this.mode as 'story' | 'endless', wave: this.currentState.wave, money: this.currentState.money });
         }
-        this.onStateUpdate({ health: newHealth });
-        this.currentState.health = newHealth;
+    }
+
+    // EngineState changes; subscribers (the UI, replays) keep currentState in step
+    onStateUpdate(updates: Partial<EngineState>) {
+        this.events.emit('state', updates);
+        const persisted = persistedFields(updates);
+        if (Object.keys(persisted).length) this.unsaved = { ...this.unsaved, ...persisted };
+    }
+
+    // --- SAVING ---
+
+    // Writes progress and settings now; false when storage refuses (full, private mode)
+    saveGame(): boolean {
+        // Changes go on top in case the host hasn't merged them into currentState yet
+        const state = { ...this.currentState, ...this.unsaved };
+        this.lastSave = this.platform.clock.now();
+        try {
+            writeSave(this.platform.storage, state);
+        } catch (e) {
+            return false; // kept pending for the next try
+        }
+        this.unsaved = null;
+        return true;
+    }
+
+    flushSave() {
+        if (this.autosave && this.unsaved) this.saveGame();
+    }
+
+    hudSnapshot(): HudSnapshot {
+        return {
+            reloadProgress: { ...this.reloadProgress },
+            reloadTimeLeft: { ...this.reloadTimeLeft },
+            defense: this.defenseStatus(),
+            ability: this.abilityStatus()
+        };
+    }
+
+    recordEndlessRun() {
+        const status = this.endlessStatus();
+        const { board, rank } = submitScore(this.platform.storage, this.endlessLeaderboard(), {
+            score: status.score,
+            time: Math.floor(status.time),
+            kills: status.kills,
+            date: Date.now()
+        });
+        this.leaderboard = board;
+        this.lastEndlessRank = rank;
+        this.onStateUpdate({ endlessStatus: status });
     }
 
     animate = () => {
-        requestAnimationFrame(this.animate);
-        this.update();
-        this.renderer.render(this.scene, this.camera);
+        if (this.disposed) return;
+        this.frameHandle = this.platform.clock.requestFrame(this.animate);
+        const now = this.platform.clock.now();
+        this.tick(now);
+        this.syncInstances();
+        this.applyHitFeedback();
+        this.audio.update();
+        if (this.post?.active && this.perf.budget.post) this.post.render();
+        else this.renderer.render(this.scene, this.camera);
+        this.updatePerf(now);
+        if (now - this.lastSave >= AUTOSAVE_INTERVAL * 1000) this.flushSave();
+    }
+
+    // --- QUALITY ---
+
+    qualityPreset(): QualityPreset {
+        return QUALITY_PRESETS[this.quality];
+    }
+
+    pixelRatio(): number {
+        return Math.min(this.platform.host.pixelRatio, this.qualityPreset().pixelRatio, this.perf.budget.pixelRatio);
+    }
+
+    particleScale(): number {
+        return this.qualityPreset().particleScale * this.perf.budget.particleScale;
+    }
+
+    // Sparks for one effect after quality, perf budget and the pool's live cap
+    sparkCount(base: number, pool: ParticlePool): number {
+        const count = Math.round(base * this.particleScale());
+        return Math.max(0, Math.min(count, this.perf.budget.sparkCap - pool.live));
+    }
+
+    // Low/Medium/High, saved with the game. Spark counts change from the next explosion
+    setQuality(quality: Quality) {
+        if (!isQuality(quality)) return;
+        this.quality = quality;
+        this.renderer.setPixelRatio(this.pixelRatio());
+        this.post?.setPreset(this.qualityPreset());
+        this.post?.setPixelRatio(this.pixelRatio());
+        this.onStateUpdate({ quality });
+    }
+
+    // --- PERFORMANCE ---
+
+    // Frame-time sampling runs off displayed frames only; headless steps never see it
+    updatePerf(now: number) {
+        if (this.perf.frame(now)) this.applyPerfBudget();
+        if (now - this.lastPerfReport < PERF.reportInterval * 1000) return;
+        this.lastPerfReport = now;
+        const snapshot = this.perfStats();
+        this.perfOverlay?.show(snapshot);
+        this.events.emit('perf', snapshot);
+    }
+
+    // New sparks pick the budget up as they are emitted; the rest is applied here
+    applyPerfBudget() {
+        this.renderer.setPixelRatio(this.pixelRatio());
+        this.post?.setPixelRatio(this.pixelRatio());
+        if (this.particlesMesh) {
+            this.particlesMesh.geometry.setDrawRange(0, Math.round(this.particleCount * this.perf.budget.particleScale));
+        }
+    }
+
+    perfStats(): PerfSnapshot {
+        return {
+            fps: this.perf.fps,
+            targetFps: this.perf.target,
+            frameMs: this.perf.frameMs,
+            level: this.perf.level,
+            budget: this.perf.budget.name,
+            adaptive: this.perf.enabled,
+            entities: this.debugCounters().entities
+        };
+    }
+
+    // Off holds the full budget of the chosen quality preset
+    setAdaptivePerf(enabled: boolean) {
+        if (this.perf.setEnabled(enabled)) this.applyPerfBudget();
+    }
+
+    // Frame rate to hold; null (the default) measures the display's refresh rate
+    setTargetFps(fps: number | null) {
+        this.perf.targetFps = fps;
+    }
+
+    // Only where there is a container to draw into
+    showPerfOverlay(visible: boolean) {
+        if (!visible) {
+            this.resources.release(this.perfOverlay);
+            this.perfOverlay = null;
+        } else if (!this.perfOverlay && this.container && !this.platform.headless) {
+            this.perfOverlay = this.resources.track(new PerfOverlay(this.container));
+            this.perfOverlay.show(this.perfStats());
+        }
+    }
+
+    // --- ACCESSIBILITY ---
+
+    palette(): ColorPalette {
+        return PALETTES[this.accessibility.colorVision];
+    }
+
+    particleMotion(): number {
+        const motion = this.accessibility.particleMotion;
+        return this.accessibility.reducedMotion ? Math.min(motion, A11Y.reducedParticleMotion) : motion;
+    }
+
+    // The weapon's explosion with the colour-vision profile's palette, if it has one
+    explosionVisual(weapon: WeaponId): ExplosionVisual {
+        const ex = (WEAPON_DEFS[weapon] || WEAPON_DEFS.normal).explosion;
+        const palette = this.palette().explosions[weapon];
+        return palette ? { ...ex, palette } : ex;
+    }
+
+    // Saved with the game; takes effect at once, cues included
+    setAccessibility(settings: Partial<AccessibilitySettings>) {
+        this.accessibility = normalizeAccessibility({ ...this.accessibility, ...settings });
+        this.applyAccessibility();
+        this.onStateUpdate({ accessibility: { ...this.accessibility } });
+    }
+
+    applyAccessibility() {
+        const palette = this.palette();
+        Object.keys(this.baseColors).forEach(key => {
+            const m = this.materials[key] as THREE.MeshStandardMaterial;
+            const base = this.baseColors[key], swap = palette.materials[key];
+            if (m.color && base.color !== undefined) m.color.setHex(swap ? swap.color : base.color);
+            if (m.emissive && base.emissive !== undefined) m.emissive.setHex(swap?.emissive ?? base.emissive);
+        });
+        (this.materials.flash as THREE.MeshBasicMaterial).color.setHex(palette.damageFlash);
+        (this.materials.cue as THREE.MeshBasicMaterial).color.setHex(palette.cue);
+        (this.materials.bulletCue as THREE.MeshBasicMaterial).color.setHex(palette.bulletCue);
+        this.instances.syncColors();
+        this.instances.flashStrength = this.accessibility.flashCap;
+        this.refreshDefenseVisuals();
+
+        if (this.post) {
+            this.post.shockwaves = !this.accessibility.reducedMotion;
+            this.post.chromaScale = this.accessibility.flashCap;
+        }
+        if (this.accessibility.reducedMotion) this.slowMo = null;
+
+        this.enemies.forEach(e => this.attachCue(e, ENEMY_DEFS[e.userData.type]?.cue || A11Y.defaultCue, 'cue'));
+        this.enemyBullets.forEach(b => this.attachCue(b, { shape: 'circle', radius: A11Y.bulletCueRadius }, 'bulletCue'));
+    }
+
+    // Adds, replaces or removes the outline on an enemy or bullet to match the setting
+    attachCue(root: THREE.Object3D, cue: { shape: CueShape, radius: number }, material: string) {
+        if (root.userData.cue) { root.remove(root.userData.cue); root.userData.cue = null; }
+        if (!this.accessibility.shapeCues) return;
+        const node = markPart(new THREE.Object3D(), cueGeometryKey(cue.shape), material);
+        node.scale.setScalar(cue.radius);
+        node.position.z = 0.1;
+        root.add(node);
+        root.userData.cue = node;
+    }
+
+    // World point on the z=0 plane to screen uv (0..1, y up)
+    worldToScreen(x: number, y: number): THREE.Vector2 {
+        this.camera.updateMatrixWorld();
+        const v = new THREE.Vector3(x, y, 0).project(this.camera);
+        return new THREE.Vector2((v.x + 1) / 2, (v.y + 1) / 2);
+    }
+
+    // Screen shake and red flash; Math.random since this never feeds the simulation
+    applyHitFeedback() {
+        const amount = this.accessibility.reducedMotion ? 0 : Math.min(this.shake, DEFENSE.maxShake);
+        this.camera.position.set(
+            this.cameraBase.x + (Math.random() - 0.5) * 2 * amount,
+            this.cameraBase.y + (Math.random() - 0.5) * 2 * amount,
+            this.cameraBase.z
+        );
+        if (this.flashOverlay) {
+            (this.flashOverlay.material as THREE.MeshBasicMaterial).opacity = Math.min(0.5 * this.accessibility.flashCap, this.flash);
+            this.flashOverlay.visible = this.flash > 0;
+        }
+    }
+
+    // Copy this frame's entity transforms into the instance buffers
+    syncInstances() {
+        this.scene.updateMatrixWorld();
+        this.instances.begin();
+        for (const m of this.missiles) this.instances.addTree(m);
+        for (const e of this.enemies) this.instances.addTree(e);
+        for (const b of this.enemyBullets) this.instances.addTree(b);
+        this.instances.end();
+    }
+
+    // Fixed-timestep driver: real frame time feeds the accumulator, the simulation
+    // always advances in fixedDt steps so every display refresh rate plays the same.
+    // Time-scale and pause act on the accumulator, never on the step itself.
+    tick(now: number) {
+        const frameDt = Math.min((now - this.lastTime) / 1000, this.maxFrameDt);
+        this.lastTime = now;
+
+        // Gamepads are polled once per frame, before the steps, so a pad's pause
+        // press is seen here like a key's instead of being cleared by the first step
+        this.input.pollGamepads(this.platform.host.getGamepads?.() || []);
+        if (this.input.consume('pause')) this.togglePause();
+        if (this.input.consume('perfOverlay')) this.showPerfOverlay(!this.perfOverlay);
+        if (this.isPaused) return;
+
+        if (this.slowMo) {
+            this.slowMo.timeLeft -= frameDt;
+            if (this.slowMo.timeLeft <= 0) this.slowMo = null;
+        }
+        this.accumulator += frameDt * this.timeScale();
+        while (this.accumulator >= this.fixedDt) {
+            this.update(this.fixedDt);
+            this.accumulator -= this.fixedDt;
+        }
+    }
+
+    // Game speed times any slow motion in progress
+    timeScale(): number {
+        return this.gameSpeed * slowMotionFactor(this.slowMo);
+    }
+
+    slowMotion(scale: number, duration: number) {
+        if (this.accessibility.reducedMotion) return;
+        this.slowMo = combineSlowMotion(this.slowMo, scale, duration);
+    }
+
+    // Slower-game setting, saved with the game
+    setGameSpeed(speed: number) {
+        this.gameSpeed = THREE.MathUtils.clamp(speed, TIME.minSpeed, TIME.maxSpeed);
+        this.onStateUpdate({ gameSpeed: this.gameSpeed });
+    }
+
+    // --- PAUSE ---
+
+    pause(reason: PauseReason = 'user') {
+        if (this.isPaused || !this.isRunning) return;
+        this.isPaused = true;
+        this.input.releaseAll();
+        this.touches.clear();
+        this.audio.suspend();
+        this.events.emit('paused', { reason });
+        this.flushSave();
+    }
+
+    // Picks up from the current frame: nothing that happened while paused is simulated
+    resume() {
+        if (!this.isPaused) return;
+        this.isPaused = false;
+        this.lastTime = this.platform.clock.now();
+        this.accumulator = 0;
+        this.input.endStep();
+        this.audio.unlock();
+        this.events.emit('resumed', {});
+    }
+
+    togglePause() {
+        if (this.isPaused) this.resume();
+        else this.pause('user');
+    }
+
+    onVisibilityChange = () => {
+        if (this.platform.host.isHidden?.()) this.pause('hidden');
+    }
+
+    // Advance the simulation by whole steps without touching the clock (headless/tests)
+    step(steps: number = 1) {
+        for (let i = 0; i < steps; i++) this.update(this.fixedDt);
     }
 
     onResize = () => {
-        this.camera.aspect = window.innerWidth / window.innerHeight;
+        const { width, height } = this.platform.host.getSize();
+        this.camera.aspect = width / height;
         this.camera.updateProjectionMatrix();
-        this.renderer.setSize(window.innerWidth, window.innerHeight);
+        this.renderer.setSize(width, height);
+        this.post?.setSize(width, height);
     }
 
-    onMouseMove = (e: MouseEvent) => {
-        const x = (e.clientX / window.innerWidth) * 2 - 1;
-        const y = -(e.clientY / window.innerHeight) * 2 + 1;
+    // Client coordinates to the z=0 plane, relative to the game area's bounds
+    screenToWorld(clientX: number, clientY: number, out: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+        const { left, top, width, height } = this.platform.host.getBounds();
+        const x = ((clientX - left) / width) * 2 - 1;
+        const y = -((clientY - top) / height) * 2 + 1;
         const vec = new THREE.Vector3(x, y, 0.5);
+        this.camera.updateMatrixWorld();
         vec.unproject(this.camera);
         const dir = vec.sub(this.camera.position).normalize();
         const t = (0 - this.camera.position.z) / dir.z; 
-        this.liveMouse3D.copy(this.camera.position.clone().add(dir.multiplyScalar(t)));
-        this.lastMouseTime = performance.now(); 
+        return out.copy(this.camera.position).add(dir.multiplyScalar(t));
+    }
+
+    onPointerMove = (e: PointerEvent) => {
+        if (e.pointerType === 'mouse') {
+            this.screenToWorld(e.clientX, e.clientY, this.liveMouse3D);
+            this.lastMouseTime = this.platform.clock.now(); 
+            return;
+        }
+        const touch = this.touches.get(e.pointerId);
+        if (touch) this.screenToWorld(e.clientX, e.clientY, touch.world);
+    }
+
+    // Aim directly in world space (z=0 plane), bypassing the screen raycast
+    setAim(x: number, y: number) {
+        this.liveMouse3D.set(x, y, 0);
+        this.lastMouseTime = this.platform.clock.now();
+    }
+
+    // --- INPUT ---
+
+    // Mouse buttons go through the bindings; touch and pen become taps and gestures.
+    // Clicks and taps only fire with pointerFire on; aim and steering always follow
+    onPointerDown = (e: PointerEvent) => {
+        this.audio.unlock();
+        if (e.pointerType === 'mouse') {
+            if (this.pointerFire) this.input.press(`Mouse${e.button}`);
+            return;
+        }
+        const touch = {
+            world: this.screenToWorld(e.clientX, e.clientY),
+            startX: e.clientX,
+            startY: e.clientY,
+            startTime: this.platform.clock.now(),
+            gesture: false
+        };
+        this.touches.set(e.pointerId, touch);
+        if (this.touches.size === 2) {
+            // Two fingers switch weapon; neither of them fires when lifted
+            this.touches.forEach(t => { t.gesture = true; });
+            this.cycleWeapon(1);
+        } else if (this.touches.size > 2) {
+            touch.gesture = true;
+        }
     }
 
-    handleClick(weapon: 'normal'|'big'|'nuke'): string | boolean {
+    onPointerUp = (e: PointerEvent) => {
+        if (e.pointerType === 'mouse') {
+            this.input.release(`Mouse${e.button}`);
+            return;
+        }
+        const touch = this.touches.get(e.pointerId);
+        this.touches.delete(e.pointerId);
+        if (!touch || touch.gesture) return;
+        const quick = this.platform.clock.now() - touch.startTime <= INPUT.tapMaxTime;
+        const still = Math.hypot(e.clientX - touch.startX, e.clientY - touch.startY) <= INPUT.tapMaxTravel;
+        if (quick && still && this.pointerFire) this.input.tap(touch.world.x, touch.world.y);
+    }
+
+    onPointerCancel = (e: PointerEvent) => {
+        if (e.pointerType === 'mouse') this.input.release(`Mouse${e.button}`);
+        this.touches.delete(e.pointerId);
+    }
+
+    onKeyDown = (e: KeyboardEvent) => {
+        if (isEditableTarget(e.target)) return;
+        this.audio.unlock();
+        // During play, bound keys like Tab and Space shouldn't also move focus or
+        // scroll; in menus and while paused the page keeps its keyboard
+        if (this.input.press(e.code) && this.isRunning && !this.isPaused) e.preventDefault();
+    }
+
+    onKeyUp = (e: KeyboardEvent) => {
+        this.input.release(e.code);
+    }
+
+    onBlur = () => {
+        this.input.releaseAll();
+        this.touches.clear();
+        this.pause('blur');
+    }
+
+    // Runs at the top of each step, so everything it does lands on a tick and
+    // story replays pick it up through the usual aim and fire events
+    updateInput(dt: number) {
+        const input = this.input;
+        const axis = input.aimAxis();
+        if (axis.x || axis.y) {
+            // Keep the reticle on screen and inside the arena
+            const halfHeight = Math.tan(THREE.MathUtils.degToRad(this.camera.fov / 2)) * this.cameraBase.z;
+            const halfWidth = Math.min(this.arenaWidth, halfHeight * this.camera.aspect);
+            this.setAim(
+                THREE.MathUtils.clamp(this.liveMouse3D.x + axis.x * INPUT.reticleSpeed * dt, -halfWidth, halfWidth),
+                THREE.MathUtils.clamp(this.liveMouse3D.y + axis.y * INPUT.reticleSpeed * dt, -halfHeight, halfHeight)
+            );
+        }
+
+        const slots = Object.keys(WEAPON_DEFS);
+        (['weapon1', 'weapon2', 'weapon3', 'weapon4'] as InputAction[]).forEach((action, i) => {
+            if (input.consume(action) && slots[i]) this.selectWeapon(slots[i]);
+        });
+        if (input.consume('prevWeapon')) this.cycleWeapon(-1);
+        if (input.consume('nextWeapon')) this.cycleWeapon(1);
+        if (input.consume('debugSpawn')) this.triggerDebug('p');
+        if (input.consume('debugNukes')) this.triggerDebug('o');
+        if (input.consume('ability')) this.useAbility();
+        input.taps.forEach(tap => {
+            this.setAim(tap.x, tap.y);
+            this.fire();
+        });
+
+        this.autofireTimer = Math.max(0, this.autofireTimer - dt);
+        const pressed = input.consume('fire');
+        if (pressed || (input.isHeld('fire') && this.autofireTimer <= 0)) {
+            this.fire();
+            this.autofireTimer = INPUT.autofireInterval;
+        }
+        input.endStep();
+    }
+
+    // Only weapons the class has unlocked can be selected
+    selectWeapon(id: WeaponId): boolean {
+        if (!WEAPON_DEFS[id] || !classHasWeapon(this.currentState.playerClass, id)) return false;
+        this.selectedWeapon = id;
+        this.onStateUpdate({ selectedWeapon: id });
+        return true;
+    }
+
+    cycleWeapon(direction: number) {
+        const unlocked = Object.keys(WEAPON_DEFS).filter(id => classHasWeapon(this.currentState.playerClass, id));
+        if (!unlocked.length) return;
+        const i = unlocked.indexOf(this.selectedWeapon);
+        this.selectWeapon(unlocked[(i + direction + unlocked.length) % unlocked.length]);
+    }
+
+    // Fires at the reticle and spends the round; 'EMPTY' when out of ammo
+    fire(weapon: WeaponId = this.selectedWeapon): string | boolean {
+        if (!this.isRunning || this.isPaused) return false;
+        const ammo = this.currentState.ammo;
+        if (this.isCombatMode() && (ammo[weapon] || 0) <= 0) return 'EMPTY';
+        const result = this.handleClick(weapon);
+        if (result === true && this.isCombatMode()) {
+            this.onStateUpdate({ ammo: { ...ammo, [weapon]: ammo[weapon] - 1 } });
+        }
+        return result;
+    }
+
+    // Binds a key code, 'MouseN' or 'PadN' to the action and saves it with the game
+    rebind(action: InputAction, input: string) {
+        this.input.bind(action, input);
+        this.saveBindings();
+    }
+
+    unbind(action: InputAction, input: string) {
+        this.input.unbind(action, input);
+        this.saveBindings();
+    }
+
+    resetBindings() {
+        this.input.bindings = defaultBindings();
+        this.saveBindings();
+    }
+
+    saveBindings() {
+        this.onStateUpdate({ bindings: JSON.parse(JSON.stringify(this.input.bindings)) });
+    }
+
+    // --- AUDIO ---
+
+    // Volume 0..1 for 'master', 'music' or 'sfx', saved with the game
+    setVolume(channel: keyof AudioSettings, value: number) {
+        const audio = { ...this.audio.settings, [channel]: THREE.MathUtils.clamp(value, 0, 1) };
+        this.audio.setSettings(audio);
+        this.onStateUpdate({ audio });
+    }
+
+    handleClick(weapon: WeaponId): string | boolean {
+        if (this.mode === 'story') this.recorder?.recordFire(this.tickCount, weapon, this.liveMouse3D.x, this.liveMouse3D.y);
         if (this.mode === 'casual') {
             this.missiles.forEach(m => this.createExplosion(m.position, m.userData.type));
             this.missiles.forEach(m => this.scene.remove(m));
             this.missiles = [];
             return true;
-        } else if (this.mode === 'story') {
+        } else if (this.isCombatMode()) {
             return this.spawnMissile(weapon);
         }
         return false;
@@ -910,8 +2121,8 @@ export class GameEngine {
     triggerDebug(key: string) {
         if (this.mode !== 'casual') return;
         if (key === 'p') {
-             const type = Math.random() < 0.1 ? 'nuke' : Math.random() < 0.4 ? 'big' : 'normal';
-             this.spawnMissile(type as any);
+             const type: WeaponId = this.rng.next() < 0.1 ? 'nuke' : this.rng.next() < 0.4 ? 'big' : 'normal';
+             this.spawnMissile(type);
         }
         if (key === 'o') {
              for(let i=0; i<100; i++) this.spawnMissile('nuke');
@@ -920,26 +2131,66 @@ export class GameEngine {
 
     cleanupEntities() {
         [...this.missiles, ...this.enemies, ...this.enemyBullets].forEach(o => this.scene.remove(o));
-        this.particles.forEach(p => {
-             if (p.points) this.scene.remove(p.points);
-             if (p.mesh) this.scene.remove(p.mesh);
-        });
+        this.particles.forEach(p => { if (p.mesh) this.releaseFireball(p.mesh); });
+        this.sparks.clear();
+        this.nukeSparks.clear();
         if (this.bossActive) this.scene.remove(this.bossActive.mesh);
-        if (this.particlesMesh) { this.scene.remove(this.particlesMesh); this.particlesMesh = null; }
-        if (this.starfield) { this.scene.remove(this.starfield); this.starfield = null; }
+        this.removeParticleWeb();
+        this.removeStarfield();
 
         this.missiles = [];
         this.enemies = [];
         this.enemyBullets = [];
         this.particles = [];
         this.bossActive = null;
+        this.enemyGridStale = true;
+        this.bulletGridStale = true;
         this.onStateUpdate({ bossStatus: null });
     }
 
+    // Live resource and entity counts; tests assert these return to baseline
+    debugCounters(): ResourceCounts & { frameLoop: boolean, entities: Record<string, number> } {
+        return {
+            ...this.resources.counts(),
+            frameLoop: this.frameHandle !== null,
+            entities: {
+                missiles: this.missiles.length,
+                enemies: this.enemies.length,
+                enemyBullets: this.enemyBullets.length,
+                effects: this.particles.length,
+                sparks: this.sparks.live + this.nukeSparks.live,
+                boss: this.bossActive ? 1 : 0,
+                sceneObjects: this.scene.children.length
+            }
+        };
+    }
+
+    // Safe to call more than once; the engine is unusable afterwards
     dispose() {
-        this.container.removeChild(this.renderer.domElement);
+        if (this.disposed) return;
+        this.disposed = true;
+        this.isRunning = false;
+        this.flushSave();
+        if (this.frameHandle !== null) this.platform.clock.cancelFrame(this.frameHandle);
+        this.frameHandle = null;
+
+        this.sparks.clear();
+        this.nukeSparks.clear();
+        this.resources.disposeAll();
+        this.scene.clear();
+        this.missiles = [];
+        this.enemies = [];
+        this.enemyBullets = [];
+        this.particles = [];
+        this.freeFireballs = [];
+        this.bossActive = null;
+        this.starfield = null;
+        this.perfOverlay = null;
+        this.particlesMesh = null;
+        this.barriers = null;
+        this.events.clear();
+
+        if (this.container && this.renderer.domElement) this.container.removeChild(this.renderer.domElement);
         this.renderer.dispose();
-        window.removeEventListener('resize', this.onResize);
-        window.removeEventListener('mousemove', this.onMouseMove);
     }
 }
@@ -0,0 +1,177 @@
+
+// Player input as actions. Keyboard keys (KeyboardEvent.code), mouse buttons
+// ('Mouse0', 'Mouse2', ...) and gamepad buttons ('Pad0', ... in the standard
+// mapping) are bound to actions; the bindings are stored with the save so they
+// can be remapped. The engine reads the controller once per simulation step:
+// held aim actions and the left stick move a virtual reticle, and fire repeats
+// while held. Touch taps are queued with their world position and fire there.
+
+export type InputAction =
+    | 'aimLeft' | 'aimRight' | 'aimUp' | 'aimDown'
+    | 'fire' | 'ability'
+    | 'prevWeapon' | 'nextWeapon'
+    | 'weapon1' | 'weapon2' | 'weapon3' | 'weapon4' // HUD slots in registry order
+    | 'pause' // toggles; read every frame, even while paused
+    | 'reset' // handled by the UI through onAction
+    | 'perfOverlay' // toggles; read every frame, like pause
+    | 'debugSpawn' | 'debugNukes'; // casual-mode toys
+
+export type InputBindings = Record<InputAction, string[]>;
+
+export const INPUT = {
+    reticleSpeed: 40, // world units/sec at full deflection
+    stickDeadzone: 0.2,
+    autofireInterval: 0.15, // seconds between shots while fire is held
+    maxBindings: 6, // per action
+    tapMaxTime: 300, // ms between touch down and up for a tap
+    tapMaxTravel: 24 // px a finger may drift and still tap
+};
+
+export const DEFAULT_BINDINGS: InputBindings = {
+    aimLeft: ['KeyA', 'ArrowLeft', 'Pad14'],
+    aimRight: ['KeyD', 'ArrowRight', 'Pad15'],
+    aimUp: ['KeyW', 'ArrowUp', 'Pad12'],
+    aimDown: ['KeyS', 'ArrowDown', 'Pad13'],
+    fire: ['Mouse0', 'Space', 'Pad0', 'Pad7'],
+    ability: ['KeyE', 'Mouse2', 'Pad1', 'Pad6'],
+    prevWeapon: ['KeyQ', 'Pad4'],
+    nextWeapon: ['Tab', 'Pad5'],
+    weapon1: ['Digit1'],
+    weapon2: ['Digit2'],
+    weapon3: ['Digit3'],
+    weapon4: ['Digit4'],
+    pause: ['Escape', 'Pad9'],
+    reset: ['KeyR', 'Pad8'],
+    perfOverlay: ['Backquote'],
+    debugSpawn: ['KeyP'],
+    debugNukes: ['KeyO']
+};
+
+export const defaultBindings = (): InputBindings => JSON.parse(JSON.stringify(DEFAULT_BINDINGS));
+
+export const isInputAction = (v: any): v is InputAction => typeof v === 'string' && v in DEFAULT_BINDINGS;
+
+// Text fields, selects and contenteditable keep their keys to themselves
+export function isEditableTarget(target: EventTarget | null): boolean {
+    const el = target as HTMLElement | null;
+    if (!el || typeof el.tagName !== 'string') return false;
+    return el.isContentEditable || el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT';
+}
+
+export interface GamepadLike {
+    buttons: ArrayLike<{ pressed: boolean }>;
+    axes: ArrayLike<number>;
+}
+
+export class InputController {
+    bindings: InputBindings;
+    stick = { x: 0, y: 0 }; // left stick past the deadzone, y up
+    onAction: ((action: InputAction) => void) | null = null; // every press, as it happens
+    private held = new Set<string>();
+    private pressed = new Set<InputAction>(); // since the last endStep
+    private padButtons = new Set<string>();
+    private capture: ((input: string) => void) | null = null;
+    taps: { x: number, y: number }[] = []; // world positions, since the last endStep
+
+    constructor(bindings?: Partial<InputBindings>) {
+        this.bindings = { ...defaultBindings(), ...bindings };
+    }
+
+    actionsFor(input: string): InputAction[] {
+        return (Object.keys(this.bindings) as InputAction[]).filter(a => this.bindings[a].includes(input));
+    }
+
+    // Returns whether the input is bound, so the host can suppress its default
+    press(input: string): boolean {
+        if (this.capture) {
+            const done = this.capture;
+            this.capture = null;
+            done(input);
+            return true;
+        }
+        const actions = this.actionsFor(input);
+        if (this.held.has(input)) return actions.length > 0; // key repeat
+        this.held.add(input);
+        actions.forEach(a => {
+            this.pressed.add(a);
+            this.onAction?.(a);
+        });
+        return actions.length > 0;
+    }
+
+    release(input: string) {
+        this.held.delete(input);
+    }
+
+    // Window lost focus: nothing stays held down
+    releaseAll() {
+        this.held.clear();
+        this.padButtons.clear();
+        this.stick = { x: 0, y: 0 };
+    }
+
+    isHeld(action: InputAction): boolean {
+        return this.bindings[action].some(input => this.held.has(input));
+    }
+
+    // True once per press, even if it was released again before the step ran
+    consume(action: InputAction): boolean {
+        return this.pressed.delete(action);
+    }
+
+    endStep() {
+        this.pressed.clear();
+        this.taps = [];
+    }
+
+    tap(x: number, y: number) {
+        this.taps.push({ x, y });
+    }
+
+    // Turns gamepad buttons into press/release and reads the first stick that moves
+    pollGamepads(pads: ArrayLike<GamepadLike | null>) {
+        const down = new Set<string>();
+        let x = 0, y = 0;
+        for (let p = 0; p < pads.length; p++) {
+            const pad = pads[p];
+            if (!pad) continue;
+            for (let b = 0; b < pad.buttons.length; b++) {
+                if (pad.buttons[b].pressed) down.add(`Pad${b}`);
+            }
+            const ax = pad.axes[0] || 0, ay = pad.axes[1] || 0;
+            if (!x && !y && Math.hypot(ax, ay) > INPUT.stickDeadzone) { x = ax; y = -ay; }
+        }
+        down.forEach(input => { if (!this.padButtons.has(input)) this.press(input); });
+        this.padButtons.forEach(input => { if (!down.has(input)) this.release(input); });
+        this.padButtons = down;
+        this.stick = { x, y };
+    }
+
+    // Reticle direction from held aim actions and the stick, length at most 1
+    aimAxis(): { x: number, y: number } {
+        let x = this.stick.x, y = this.stick.y;
+        if (this.isHeld('aimLeft')) x -= 1;
+        if (this.isHeld('aimRight')) x += 1;
+        if (this.isHeld('aimUp')) y += 1;
+        if (this.isHeld('aimDown')) y -= 1;
+        const len = Math.hypot(x, y);
+        return len > 1 ? { x: x / len, y: y / len } : { x, y };
+    }
+
+    // Binds the input to the action, taking it off any other action
+    bind(action: InputAction, input: string) {
+        (Object.keys(this.bindings) as InputAction[]).forEach(a => {
+            this.bindings[a] = this.bindings[a].filter(i => i !== input);
+        });
+        this.bindings[action] = [input, ...this.bindings[action]].slice(0, INPUT.maxBindings);
+    }
+
+    unbind(action: InputAction, input: string) {
+        this.bindings[action] = this.bindings[action].filter(i => i !== input);
+    }
+
+    // The next key, button or pad press goes to `done` instead of any action
+    captureNext(done: ((input: string) => void) | null) {
+        this.capture = done;
+    }
+}
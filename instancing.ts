@@ -0,0 +1,139 @@
+
+import * as THREE from 'three';
+
+// Draws many small entities through one InstancedMesh per (geometry, material)
+// pair. Entities stay in the scene as plain Object3D hierarchies; any node with
+// userData.geometry/material is a drawable part and its matrixWorld becomes an
+// instance. A root's userData.flashTime > 0 lights its parts up white, as far
+// as flashStrength allows.
+
+interface Batch {
+    mesh: THREE.InstancedMesh;
+    flash: THREE.InstancedBufferAttribute;
+    count: number;
+    material: string;
+}
+
+export function markPart(obj: THREE.Object3D, geometry: string, material: string) {
+    obj.userData.geometry = geometry;
+    obj.userData.material = material;
+    return obj;
+}
+
+export class InstanceBatcher {
+    scene: THREE.Scene;
+    geometries: Record<string, THREE.BufferGeometry>;
+    materials: Record<string, THREE.Material>;
+    batches: Map<string, Batch> = new Map();
+    flashStrength: number = 1;
+
+    constructor(scene: THREE.Scene, geometries: Record<string, THREE.BufferGeometry>, materials: Record<string, THREE.Material>) {
+        this.scene = scene;
+        this.geometries = geometries;
+        this.materials = materials;
+    }
+
+    // Standard materials get a per-instance hit flash mixed into their emissive term
+    createMaterial(key: string) {
+        const material = this.materials[key].clone();
+        if ((material as THREE.MeshStandardMaterial).isMeshStandardMaterial) {
+            material.onBeforeCompile = (shader) => {
+                shader.vertexShader = 'attribute float instanceFlash;\nvarying float vInstanceFlash;\n' + shader.vertexShader.replace(
+                    '#include <begin_vertex>',
+                    '#include <begin_vertex>\n\tvInstanceFlash = instanceFlash;'
+                );
+                shader.fragmentShader = 'varying float vInstanceFlash;\n' + shader.fragmentShader.replace(
+                    '#include <emissivemap_fragment>',
+                    '#include <emissivemap_fragment>\n\ttotalEmissiveRadiance = mix(totalEmissiveRadiance, vec3(1.0), vInstanceFlash);'
+                );
+            };
+            material.customProgramCacheKey = () => 'instanceFlash';
+        }
+        return material;
+    }
+
+    createBatch(geometry: string, material: string, capacity: number, previous?: Batch): Batch {
+        const geo = this.geometries[geometry].clone();
+        const flash = new THREE.InstancedBufferAttribute(new Float32Array(capacity), 1);
+        flash.setUsage(THREE.DynamicDrawUsage);
+        geo.setAttribute('instanceFlash', flash);
+
+        const mesh = new THREE.InstancedMesh(geo, previous ? previous.mesh.material : this.createMaterial(material), capacity);
+        mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+        mesh.frustumCulled = false;
+        mesh.count = 0;
+        this.scene.add(mesh);
+
+        if (previous) {
+            this.scene.remove(previous.mesh);
+            previous.mesh.geometry.dispose();
+            previous.mesh.dispose();
+        }
+        return { mesh, flash, count: 0, material };
+    }
+
+    batchFor(geometry: string, material: string): Batch {
+        const key = `${geometry}|${material}`;
+        let batch = this.batches.get(key);
+        if (!batch) {
+            batch = this.createBatch(geometry, material, 64);
+            this.batches.set(key, batch);
+        } else if (batch.count >= batch.mesh.instanceMatrix.count) {
+            // Grow by doubling; the material (and its compiled program) carries over
+            const grown = this.createBatch(geometry, material, batch.mesh.instanceMatrix.count * 2, batch);
+            (grown.mesh.instanceMatrix.array as Float32Array).set(batch.mesh.instanceMatrix.array as Float32Array);
+            (grown.flash.array as Float32Array).set(batch.flash.array as Float32Array);
+            grown.count = batch.count;
+            batch = grown;
+            this.batches.set(key, batch);
+        }
+        return batch;
+    }
+
+    begin() {
+        this.batches.forEach(b => { b.count = 0; });
+    }
+
+    add(geometry: string, material: string, matrix: THREE.Matrix4, flash: number) {
+        const batch = this.batchFor(geometry, material);
+        batch.mesh.setMatrixAt(batch.count, matrix);
+        batch.flash.setX(batch.count, flash);
+        batch.count++;
+    }
+
+    addTree(root: THREE.Object3D) {
+        const flash = root.userData.flashTime > 0 ? this.flashStrength : 0;
+        root.traverse(node => {
+            const d = node.userData;
+            if (d.geometry && node !== root) this.add(d.geometry, d.material, node.matrixWorld, flash);
+        });
+    }
+
+    // Batches draw with clones; copy over source colours changed since (palette swaps)
+    syncColors() {
+        this.batches.forEach(b => {
+            const source = this.materials[b.material] as THREE.MeshStandardMaterial;
+            const material = b.mesh.material as THREE.MeshStandardMaterial;
+            if (source.color) material.color.copy(source.color);
+            if (source.emissive) material.emissive.copy(source.emissive);
+        });
+    }
+
+    end() {
+        this.batches.forEach(b => {
+            b.mesh.count = b.count;
+            b.mesh.instanceMatrix.needsUpdate = true;
+            b.flash.needsUpdate = true;
+        });
+    }
+
+    dispose() {
+        this.batches.forEach(b => {
+            this.scene.remove(b.mesh);
+            b.mesh.geometry.dispose();
+            (b.mesh.material as THREE.Material).dispose();
+            b.mesh.dispose();
+        });
+        this.batches.clear();
+    }
+}
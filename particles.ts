@@ -0,0 +1,102 @@
+
+import * as THREE from 'three';
+
+// Fixed-capacity spark buffer drawn as a single Points object. Emitting past
+// capacity recycles the oldest slots, so a burst of nukes costs the same memory
+// as one. Sparks fade by scaling their colour, which reads as opacity under
+// additive blending. Free slots stay in the buffer as black (invisible) points.
+// Each spark carries its own size as a multiple of the pool's point size.
+
+export class ParticlePool {
+    capacity: number;
+    points: THREE.Points;
+    positions: Float32Array;
+    colors: Float32Array;
+    baseColors: Float32Array;
+    sizes: Float32Array;
+    velocities: Float32Array;
+    ages: Float32Array;
+    maxAges: Float32Array; // 0 marks a free slot
+    cursor: number = 0;
+    live: number = 0;
+
+    constructor(capacity: number, size: number, texture: THREE.Texture | null) {
+        this.capacity = capacity;
+        this.positions = new Float32Array(capacity * 3);
+        this.colors = new Float32Array(capacity * 3);
+        this.baseColors = new Float32Array(capacity * 3);
+        this.sizes = new Float32Array(capacity).fill(1);
+        this.velocities = new Float32Array(capacity * 3);
+        this.ages = new Float32Array(capacity);
+        this.maxAges = new Float32Array(capacity);
+
+        const geo = new THREE.BufferGeometry();
+        geo.setAttribute('position', new THREE.BufferAttribute(this.positions, 3).setUsage(THREE.DynamicDrawUsage));
+        geo.setAttribute('color', new THREE.BufferAttribute(this.colors, 3).setUsage(THREE.DynamicDrawUsage));
+        geo.setAttribute('sparkSize', new THREE.BufferAttribute(this.sizes, 1).setUsage(THREE.DynamicDrawUsage));
+        const mat = new THREE.PointsMaterial({
+            size, vertexColors: true, map: texture,
+            blending: THREE.AdditiveBlending, depthWrite: false, transparent: true
+        });
+        mat.onBeforeCompile = (shader) => {
+            shader.vertexShader = 'attribute float sparkSize;\n' + shader.vertexShader.replace(
+                'gl_PointSize = size;',
+                'gl_PointSize = size * sparkSize;'
+            );
+        };
+        mat.customProgramCacheKey = () => 'sparkSize';
+        this.points = new THREE.Points(geo, mat);
+        this.points.frustumCulled = false;
+    }
+
+    emit(pos: THREE.Vector3, velocity: THREE.Vector3, color: THREE.Color, maxAge: number, size: number = 1) {
+        const i = this.cursor;
+        this.cursor = (this.cursor + 1) % this.capacity;
+        if (this.maxAges[i] === 0) this.live++;
+        const k = i * 3;
+        this.positions[k] = pos.x; this.positions[k+1] = pos.y; this.positions[k+2] = pos.z;
+        this.velocities[k] = velocity.x; this.velocities[k+1] = velocity.y; this.velocities[k+2] = velocity.z;
+        this.baseColors[k] = color.r; this.baseColors[k+1] = color.g; this.baseColors[k+2] = color.b;
+        this.colors[k] = color.r; this.colors[k+1] = color.g; this.colors[k+2] = color.b;
+        this.ages[i] = 0;
+        this.maxAges[i] = maxAge;
+        this.sizes[i] = size;
+        this.points.geometry.attributes.sparkSize.needsUpdate = true;
+    }
+
+    update(dt: number, drag: number) {
+        if (this.live === 0) return;
+        const p = this.positions, v = this.velocities, c = this.colors, base = this.baseColors;
+        for (let i = 0; i < this.capacity; i++) {
+            const maxAge = this.maxAges[i];
+            if (maxAge === 0) continue;
+            const k = i * 3;
+            this.ages[i] += dt;
+            if (this.ages[i] >= maxAge) {
+                this.maxAges[i] = 0;
+                c[k] = c[k+1] = c[k+2] = 0;
+                this.live--;
+                continue;
+            }
+            v[k] *= drag; v[k+1] *= drag; v[k+2] *= drag;
+            p[k] += v[k] * dt; p[k+1] += v[k+1] * dt; p[k+2] += v[k+2] * dt;
+            const fade = 1 - this.ages[i] / maxAge;
+            c[k] = base[k] * fade; c[k+1] = base[k+1] * fade; c[k+2] = base[k+2] * fade;
+        }
+        this.points.geometry.attributes.position.needsUpdate = true;
+        this.points.geometry.attributes.color.needsUpdate = true;
+    }
+
+    clear() {
+        this.maxAges.fill(0);
+        this.colors.fill(0);
+        this.live = 0;
+        this.cursor = 0;
+        this.points.geometry.attributes.color.needsUpdate = true;
+    }
+
+    dispose() {
+        this.points.geometry.dispose();
+        (this.points.material as THREE.Material).dispose();
+    }
+}
@@ -0,0 +1,163 @@
+
+// Keeps the frame rate up when the scene gets heavy (ten nukes in casual mode).
+// The governor watches the time between displayed frames and steps down through
+// budget levels while frames run over the target, cutting spark counts, spark
+// and fireball lifetimes, the pixel ratio and finally post-processing. Once
+// frames are back on target for a while it steps up again, waiting longer after
+// each step up that had to be taken back, so a scene right on the edge settles
+// instead of flickering between levels. The target is the display's refresh rate,
+// measured over the first frames and capped at PERF.targetFps, so a 30 or 50 Hz
+// screen isn't read as a slow one; hosts can fix it instead. Budgets only touch
+// visuals; blast zones and everything else the simulation reads are left alone.
+
+export const PERF = {
+    targetFps: 60, // cap on the measured refresh rate; faster displays are held to this
+    calibrationFrames: 60, // frame intervals sampled to measure the refresh rate
+    smoothing: 0.1, // weight of the newest frame in the running average
+    overBudget: 1.2, // average frame time over target by this factor counts as slow
+    headroom: 1.05, // and under this factor as on target (vsync holds it at 1)
+    reduceAfter: 0.5, // seconds of slow frames before stepping down
+    restoreAfter: 3, // seconds on target before stepping up
+    maxRestoreAfter: 30,
+    retreatWindow: 2, // stepping down this soon after a step up doubles the wait
+    maxFrameGap: 250, // ms; longer gaps (hidden tab, debugger) are not samples
+    reportInterval: 0.5 // seconds between perf snapshots
+};
+
+export interface PerfBudget {
+    name: string;
+    particleScale: number; // on top of the quality preset's
+    pixelRatio: number; // cap, on top of the quality preset's
+    lifetimeScale: number; // sparks and fireballs
+    sparkCap: number; // live sparks per pool before new ones are dropped
+    post: boolean; // allow the post-processing chain
+}
+
+// Level 0 is the quality preset as chosen; each level after it is cheaper
+export const PERF_BUDGETS: PerfBudget[] = [
+    { name: 'full', particleScale: 1, pixelRatio: 2, lifetimeScale: 1, sparkCap: Infinity, post: true },
+    { name: 'reduced', particleScale: 0.6, pixelRatio: 1.5, lifetimeScale: 0.8, sparkCap: 10000, post: true },
+    { name: 'low', particleScale: 0.35, pixelRatio: 1.25, lifetimeScale: 0.6, sparkCap: 5000, post: true },
+    { name: 'minimal', particleScale: 0.15, pixelRatio: 1, lifetimeScale: 0.4, sparkCap: 2000, post: false }
+];
+
+export interface PerfSnapshot {
+    fps: number;
+    targetFps: number;
+    frameMs: number; // running average
+    level: number;
+    budget: string;
+    adaptive: boolean;
+    entities: Record<string, number>;
+}
+
+export class PerfGovernor {
+    level: number = 0;
+    enabled: boolean = true;
+    targetFps: number | null = null; // fixed by the host; null follows the display
+    displayFps: number | null = null; // measured refresh rate, once calibrated
+    frameMs: number = 0;
+    private samples: number[] = [];
+    private lastFrame: number | null = null;
+    private slowTime = 0;
+    private fastTime = 0;
+    private restoreWait = PERF.restoreAfter;
+    private sinceRestore = Infinity;
+
+    get budget(): PerfBudget {
+        return PERF_BUDGETS[this.level];
+    }
+
+    get target(): number {
+        return this.targetFps ?? Math.min(PERF.targetFps, this.displayFps ?? PERF.targetFps);
+    }
+
+    get fps(): number {
+        return this.frameMs > 0 ? 1000 / this.frameMs : 0;
+    }
+
+    // Feed the timestamp (ms) of each displayed frame; returns whether the level changed
+    frame(now: number): boolean {
+        const last = this.lastFrame;
+        this.lastFrame = now;
+        if (last === null) return false;
+        const ms = now - last;
+        if (ms <= 0 || ms > PERF.maxFrameGap) return false;
+        this.frameMs = this.frameMs > 0 ? this.frameMs + (ms - this.frameMs) * PERF.smoothing : ms;
+        if (this.displayFps === null && !this.calibrate(ms)) return false;
+        if (!this.enabled) return false;
+
+        const dt = ms / 1000;
+        const targetMs = 1000 / this.target;
+        this.sinceRestore += dt;
+        if (this.frameMs > targetMs * PERF.overBudget) {
+            this.slowTime += dt;
+            this.fastTime = 0;
+        } else if (this.frameMs < targetMs * PERF.headroom) {
+            this.fastTime += dt;
+            this.slowTime = 0;
+        } else {
+            this.slowTime = this.fastTime = 0;
+        }
+
+        if (this.slowTime >= PERF.reduceAfter && this.level < PERF_BUDGETS.length - 1) {
+            if (this.sinceRestore < PERF.retreatWindow) this.restoreWait = Math.min(this.restoreWait * 2, PERF.maxRestoreAfter);
+            return this.setLevel(this.level + 1);
+        }
+        if (this.fastTime >= this.restoreWait && this.level > 0) {
+            this.sinceRestore = 0;
+            return this.setLevel(this.level - 1);
+        }
+        return false;
+    }
+
+    // Off pins the full budget; the average keeps running for the overlay
+    setEnabled(enabled: boolean): boolean {
+        this.enabled = enabled;
+        this.restoreWait = PERF.restoreAfter;
+        return this.setLevel(0);
+    }
+
+    // True once the refresh rate is known. Frames that make vsync are the short
+    // ones, so the lower quartile holds up while a busy scene misses a few.
+    private calibrate(ms: number): boolean {
+        this.samples.push(ms);
+        if (this.samples.length < PERF.calibrationFrames) return false;
+        const sorted = this.samples.sort((a, b) => a - b);
+        this.displayFps = 1000 / sorted[Math.floor(sorted.length / 4)];
+        this.samples = [];
+        return true;
+    }
+
+    private setLevel(level: number): boolean {
+        this.slowTime = this.fastTime = 0;
+        if (level === this.level) return false;
+        this.level = level;
+        return true;
+    }
+}
+
+// Plain text box in the corner of the game container
+export class PerfOverlay {
+    element: HTMLDivElement;
+
+    constructor(parent: HTMLElement) {
+        this.element = document.createElement('div');
+        this.element.style.cssText = 'position:absolute;top:4px;left:4px;z-index:10;padding:4px 6px;'
+            + 'font:11px/1.3 monospace;white-space:pre;color:#4ade80;background:rgba(0,0,0,0.6);pointer-events:none';
+        parent.appendChild(this.element);
+    }
+
+    show(s: PerfSnapshot) {
+        const entities = Object.keys(s.entities).map(k => `${k} ${s.entities[k]}`);
+        this.element.textContent = [
+            `${s.fps.toFixed(0)}/${s.targetFps.toFixed(0)} fps  ${s.frameMs.toFixed(1)} ms`,
+            `budget ${s.level} ${s.budget}${s.adaptive ? '' : ' (fixed)'}`,
+            ...entities
+        ].join('\n');
+    }
+
+    dispose() {
+        this.element.remove();
+    }
+}
@@ -0,0 +1,157 @@
+
+import * as THREE from 'three';
+
+// Everything the engine needs from the outside world. The browser platform wraps
+// WebGL, requestAnimationFrame and window; the headless one lets tests step the
+// simulation by hand in Node.
+
+export interface EngineRenderer {
+    domElement: HTMLElement | null;
+    setSize(width: number, height: number): void;
+    setPixelRatio(ratio: number): void;
+    render(scene: THREE.Scene, camera: THREE.Camera): void;
+    dispose(): void;
+}
+
+export interface EngineClock {
+    now(): number; // ms
+    requestFrame(cb: () => void): number;
+    cancelFrame(handle: number): void;
+}
+
+export interface EngineHost {
+    getSize(): { width: number, height: number };
+    getBounds(): { left: number, top: number, width: number, height: number }; // client coords of the game area
+    pixelRatio: number;
+    addEventListener(type: string, fn: (e: any) => void): void;
+    removeEventListener(type: string, fn: (e: any) => void): void;
+    getGamepads?(): ArrayLike<Gamepad | null>;
+    isHidden?(): boolean; // page in a background tab or minimised
+}
+
+export interface EngineStorage {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+export interface EnginePlatform {
+    renderer: EngineRenderer;
+    clock: EngineClock;
+    host: EngineHost;
+    storage: EngineStorage;
+    headless: boolean;
+    autoStart: boolean; // start the frame loop from the constructor
+    createAudioContext?(): AudioContext | null; // absent: the game is silent
+}
+
+// With a container the game fills that element instead of the window
+export function createBrowserPlatform(container: HTMLElement | null = null): EnginePlatform {
+    const renderer = new THREE.WebGLRenderer({
+        antialias: true,
+        alpha: true,
+        powerPreference: "high-performance"
+    });
+    renderer.toneMapping = THREE.ACESFilmicToneMapping;
+    renderer.toneMappingExposure = 1.2;
+    // Touch drags aim and steer instead of scrolling the page
+    renderer.domElement.style.touchAction = 'none';
+    // A drag that leaves the canvas keeps reporting to it until released
+    renderer.domElement.addEventListener('pointerdown', e => renderer.domElement.setPointerCapture(e.pointerId));
+
+    // Pointer input comes from the game area only, so clicks on the rest of the
+    // page (menus, other widgets) don't aim or fire; keys, blur and resize stay on window
+    const pointerTarget: HTMLElement = container || renderer.domElement;
+    const isPointer = (type: string) => type.startsWith('pointer');
+
+    // The container can change size without the window doing so
+    const observers = new Map<(e: any) => void, ResizeObserver>();
+
+    return {
+        renderer,
+        clock: {
+            now: () => performance.now(),
+            requestFrame: (cb) => requestAnimationFrame(cb),
+            cancelFrame: (handle) => cancelAnimationFrame(handle)
+        },
+        host: {
+            getSize: () => container
+                ? { width: container.clientWidth, height: container.clientHeight }
+                : { width: window.innerWidth, height: window.innerHeight },
+            getBounds: () => container
+                ? container.getBoundingClientRect()
+                : { left: 0, top: 0, width: window.innerWidth, height: window.innerHeight },
+            get pixelRatio() { return window.devicePixelRatio; },
+            addEventListener: (type, fn) => {
+                if (type === 'visibilitychange') return document.addEventListener(type, fn);
+                if (isPointer(type)) return pointerTarget.addEventListener(type, fn);
+                window.addEventListener(type, fn);
+                if (type === 'resize' && container && typeof ResizeObserver !== 'undefined') {
+                    const observer = new ResizeObserver(() => fn(undefined));
+                    observer.observe(container);
+                    observers.set(fn, observer);
+                }
+            },
+            removeEventListener: (type, fn) => {
+                if (type === 'visibilitychange') return document.removeEventListener(type, fn);
+                if (isPointer(type)) return pointerTarget.removeEventListener(type, fn);
+                window.removeEventListener(type, fn);
+                if (type === 'resize') {
+                    observers.get(fn)?.disconnect();
+                    observers.delete(fn);
+                }
+            },
+            getGamepads: () => navigator.getGamepads ? navigator.getGamepads() : [],
+            isHidden: () => document.visibilityState === 'hidden'
+        },
+        storage: window.localStorage,
+        headless: false,
+        autoStart: true,
+        createAudioContext: () => {
+            const Ctor = window.AudioContext || (window as any).webkitAudioContext;
+            return Ctor ? new Ctor() : null;
+        }
+    };
+}
+
+export class NullRenderer implements EngineRenderer {
+    domElement = null;
+    frames = 0;
+    setSize() {}
+    setPixelRatio() {}
+    render() { this.frames++; }
+    dispose() {}
+}
+
+// Time only moves when the test says so; frame requests are never scheduled.
+export class ManualClock implements EngineClock {
+    time = 0;
+    now() { return this.time; }
+    advance(ms: number) { this.time += ms; }
+    requestFrame() { return 0; }
+    cancelFrame() {}
+}
+
+export class MemoryStorage implements EngineStorage {
+    items: Record<string, string> = {};
+    getItem(key: string) { return key in this.items ? this.items[key] : null; }
+    setItem(key: string, value: string) { this.items[key] = String(value); }
+    removeItem(key: string) { delete this.items[key]; }
+}
+
+export function createHeadlessPlatform(width: number = 1280, height: number = 720): EnginePlatform {
+    return {
+        renderer: new NullRenderer(),
+        clock: new ManualClock(),
+        host: {
+            getSize: () => ({ width, height }),
+            getBounds: () => ({ left: 0, top: 0, width, height }),
+            pixelRatio: 1,
+            addEventListener: () => {},
+            removeEventListener: () => {}
+        },
+        storage: new MemoryStorage(),
+        headless: true,
+        autoStart: false
+    };
+}
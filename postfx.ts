@@ -0,0 +1,193 @@
+
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { EngineEvents, EventBus } from './events';
+import { WEAPON_DEFS } from './weapons';
+
+// Optional screen effects on top of the plain render: bloom on anything bright
+// enough (the emissive glows, boss core, blasts), a distortion ring expanding
+// from each nuke and a chromatic split when the base is hit. Quality presets
+// decide whether the chain runs at all, and also set the pixel ratio and how
+// many sparks explosions emit, so slower machines can trade looks for frames.
+
+export type Quality = 'low' | 'medium' | 'high';
+
+export interface QualityPreset {
+    pixelRatio: number; // cap on the device pixel ratio
+    particleScale: number; // multiplier on spark and particle counts
+    post: boolean; // run the post-processing chain
+    bloomScale: number; // bloom buffer size relative to the screen; 0 turns bloom off
+}
+
+export const QUALITY_PRESETS: Record<Quality, QualityPreset> = {
+    low: { pixelRatio: 1, particleScale: 0.3, post: false, bloomScale: 0 },
+    medium: { pixelRatio: 1.5, particleScale: 0.6, post: true, bloomScale: 0.5 },
+    high: { pixelRatio: 2, particleScale: 1, post: true, bloomScale: 1 }
+};
+
+export const DEFAULT_QUALITY: Quality = 'high';
+
+export const isQuality = (v: any): v is Quality => typeof v === 'string' && v in QUALITY_PRESETS;
+
+export const POSTFX = {
+    bloomStrength: 0.9,
+    bloomRadius: 0.4,
+    bloomThreshold: 0.85, // linear luminance, before tone mapping
+    shockwaveTime: 0.9, // seconds
+    shockwaveStrength: 0.03, // peak uv displacement
+    maxShockwaves: 4,
+    chromaPerDamage: 0.05,
+    chromaDecay: 3 // per second
+};
+
+// Fresh uniforms per pass; ShaderPass only shallow-copies the waves array
+const distortionShader = () => ({
+    uniforms: {
+        tDiffuse: { value: null },
+        waves: { value: Array.from({ length: POSTFX.maxShockwaves }, () => new THREE.Vector4()) },
+        aspect: { value: 1 },
+        chroma: { value: 0 }
+    },
+    vertexShader: `
+        varying vec2 vUv;
+        void main() {
+            vUv = uv;
+            gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+        }`,
+    fragmentShader: `
+        uniform sampler2D tDiffuse;
+        uniform vec4 waves[${POSTFX.maxShockwaves}]; // xy centre (uv), z radius, w strength
+        uniform float aspect;
+        uniform float chroma;
+        varying vec2 vUv;
+        void main() {
+            vec2 uv = vUv;
+            for (int i = 0; i < ${POSTFX.maxShockwaves}; i++) {
+                vec4 w = waves[i];
+                if (w.w <= 0.0) continue;
+                vec2 d = uv - w.xy;
+                d.x *= aspect;
+                float ring = 1.0 - smoothstep(0.0, 0.05, abs(length(d) - w.z));
+                vec2 dir = normalize(d + 1e-5);
+                uv -= vec2(dir.x / aspect, dir.y) * ring * w.w;
+            }
+            vec2 split = (uv - 0.5) * chroma * 0.03;
+            vec4 color = texture2D(tDiffuse, uv);
+            color.r = texture2D(tDiffuse, uv + split).r;
+            color.b = texture2D(tDiffuse, uv - split).b;
+            gl_FragColor = color;
+        }`
+});
+
+interface Shockwave {
+    center: THREE.Vector2; // uv
+    maxRadius: number; // uv height units
+    age: number;
+}
+
+export class PostProcessing {
+    composer: EffectComposer;
+    bloom: UnrealBloomPass;
+    distortion: ShaderPass;
+    preset: QualityPreset;
+    waves: Shockwave[] = [];
+    chroma: number = 0;
+    shockwaves: boolean = true; // off under reduced motion
+    chromaScale: number = 1; // flash cap on the hit split
+    private size = new THREE.Vector2(1, 1); // css pixels
+    private pixelRatio: number; // the composer's; it keeps its own private copy
+    private unsubscribe: (() => void)[] = [];
+
+    constructor(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera, preset: QualityPreset) {
+        this.composer = new EffectComposer(renderer);
+        this.composer.addPass(new RenderPass(scene, camera));
+        this.bloom = new UnrealBloomPass(new THREE.Vector2(1, 1), POSTFX.bloomStrength, POSTFX.bloomRadius, POSTFX.bloomThreshold);
+        this.composer.addPass(this.bloom);
+        this.distortion = new ShaderPass(distortionShader());
+        this.composer.addPass(this.distortion);
+        this.composer.addPass(new OutputPass());
+        renderer.getSize(this.size);
+        this.pixelRatio = renderer.getPixelRatio();
+        this.preset = preset;
+        this.setPreset(preset);
+    }
+
+    get active() {
+        return this.preset.post;
+    }
+
+    setPreset(preset: QualityPreset) {
+        this.preset = preset;
+        this.bloom.enabled = preset.bloomScale > 0;
+        this.setSize(this.size.x, this.size.y);
+    }
+
+    setPixelRatio(ratio: number) {
+        this.pixelRatio = ratio;
+        this.composer.setPixelRatio(ratio);
+        this.setSize(this.size.x, this.size.y);
+    }
+
+    setSize(width: number, height: number) {
+        this.size.set(width, height);
+        this.composer.setSize(width, height);
+        // The composer sizes every pass in device pixels; bloom can run on a smaller buffer
+        const bloomScale = this.pixelRatio * this.preset.bloomScale;
+        if (this.bloom.enabled) this.bloom.setSize(Math.max(1, Math.floor(width * bloomScale)), Math.max(1, Math.floor(height * bloomScale)));
+        this.distortion.uniforms.aspect.value = width / height;
+    }
+
+    // project: world x/y on the z=0 plane to screen uv
+    connect(events: EventBus<EngineEvents>, project: (x: number, y: number) => THREE.Vector2) {
+        this.unsubscribe.push(
+            events.on('explosion', e => {
+                if (WEAPON_DEFS[e.weapon]?.explosion.kind !== 'nuke') return;
+                const center = project(e.x, e.y);
+                const edge = project(e.x, e.y + e.radius);
+                this.shockwave(center, Math.min(0.9, Math.abs(edge.y - center.y)));
+            }),
+            events.on('playerDamaged', e => this.flash(e.amount * POSTFX.chromaPerDamage))
+        );
+    }
+
+    shockwave(center: THREE.Vector2, maxRadius: number) {
+        if (!this.shockwaves) return;
+        if (this.waves.length >= POSTFX.maxShockwaves) this.waves.shift();
+        this.waves.push({ center, maxRadius, age: 0 });
+    }
+
+    flash(amount: number) {
+        this.chroma = Math.min(this.chromaScale, this.chroma + amount * this.chromaScale);
+    }
+
+    update(dt: number) {
+        this.chroma = Math.max(0, this.chroma - POSTFX.chromaDecay * dt);
+        this.waves.forEach(w => { w.age += dt; });
+        this.waves = this.waves.filter(w => w.age < POSTFX.shockwaveTime);
+    }
+
+    render() {
+        const uniforms = this.distortion.uniforms;
+        (uniforms.waves.value as THREE.Vector4[]).forEach((v, i) => {
+            const w = this.waves[i];
+            if (!w) { v.set(0, 0, 0, 0); return; }
+            const t = w.age / POSTFX.shockwaveTime;
+            v.set(w.center.x, w.center.y, w.maxRadius * t, POSTFX.shockwaveStrength * (1 - t));
+        });
+        uniforms.chroma.value = this.chroma;
+        this.distortion.enabled = this.waves.length > 0 || this.chroma > 0;
+        this.composer.render();
+    }
+
+    dispose() {
+        this.unsubscribe.forEach(off => off());
+        this.unsubscribe = [];
+        this.bloom.dispose();
+        this.distortion.material.dispose();
+        this.composer.dispose();
+    }
+}
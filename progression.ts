@@ -0,0 +1,108 @@
+
+import { EngineState, UpgradeLevels, WeaponLevels } from './state';
+import { WEAPON_DEFS, WeaponDef, curveAt, defaultWeaponLevels, upgradeCost } from './weapons';
+import { MAX_UPGRADE_LEVEL } from './save';
+import { ClassPerks, classDef } from './classes';
+
+// Everything bought in the shop that changes the numbers: the money multiplier
+// on rewards, per-weapon levels read through the weapon curves, crit chance and
+// the global stat multipliers and class perks. The engine and the shop both read
+// effectiveWeaponStats, so the shop shows the numbers that actually fly.
+
+export const MONEY_MULT_PER_LEVEL = 0.1;
+export const CRIT_MULTIPLIER = 2;
+export const RESPEC_REFUND = 0.9; // fraction of spent money returned
+
+export interface EffectiveWeaponStats {
+    speed: number;
+    blastRadius: number;
+    damage: number;
+    critChance: number;
+    reload: number;
+    turnRate: number | null;
+    lockRange: number | null;
+}
+
+export interface EffectiveStats {
+    moneyMult: number;
+    weapons: Record<string, EffectiveWeaponStats>;
+}
+
+export const moneyMultiplier = (level: number) => 1 + (level || 0) * MONEY_MULT_PER_LEVEL;
+
+// Applied to every payout: kills, boss parts, bosses and stage bonuses
+export const scaleReward = (amount: number, moneyMultLevel: number) => Math.round(amount * moneyMultiplier(moneyMultLevel));
+
+export function effectiveWeaponStats(def: WeaponDef, levels: Record<string, number>, stats?: { speedMult: number, radiusMult: number }, perks: ClassPerks = {}): EffectiveWeaponStats {
+    const speedMult = stats?.speedMult ?? 1;
+    const radiusMult = (stats?.radiusMult ?? 1) * (perks.blastRadius ?? 1);
+    return {
+        speed: curveAt(def.speed, levels.speed) * speedMult,
+        blastRadius: curveAt(def.blastRadius, levels.radius) * radiusMult,
+        damage: curveAt(def.damage, levels.dmg) * (perks.damage ?? 1),
+        critChance: def.critPerLevel ? Math.min(1, (levels.crit || 0) * def.critPerLevel) : 0,
+        reload: curveAt(def.reload, levels.reload) / (perks.regenRate ?? 1),
+        turnRate: def.guidance ? curveAt(def.guidance.turnRate, levels.turn) : null,
+        lockRange: def.guidance ? curveAt(def.guidance.lockRange, levels.lock) : null
+    };
+}
+
+export function levelsFor(state: EngineState, id: string): WeaponLevels {
+    const def = WEAPON_DEFS[id] || WEAPON_DEFS.normal;
+    const levels = state.upgradeLevels[id];
+    return { ...defaultWeaponLevels(def), ...(typeof levels === 'object' ? levels : {}) };
+}
+
+export function effectiveStats(state: EngineState): EffectiveStats {
+    const weapons: Record<string, EffectiveWeaponStats> = {};
+    Object.values(WEAPON_DEFS).forEach(def => {
+        weapons[def.id] = effectiveWeaponStats(def, levelsFor(state, def.id), state.stats, classDef(state.playerClass).perks);
+    });
+    return { moneyMult: moneyMultiplier(state.upgradeLevels.moneyMult), weapons };
+}
+
+// Sum of what every bought level cost, at the price it was bought for
+export function spentOnUpgrades(state: EngineState): number {
+    const spentOn = (level: number) => {
+        let total = 0;
+        for (let l = 0; l < (level || 0); l++) total += upgradeCost(l);
+        return total;
+    };
+    let spent = spentOn(state.upgradeLevels.moneyMult);
+    Object.keys(WEAPON_DEFS).forEach(id => {
+        const levels = levelsFor(state, id);
+        Object.keys(levels).forEach(stat => { spent += spentOn(levels[stat]); });
+    });
+    return spent;
+}
+
+// Buys the next level of a weapon stat, or of the money multiplier when track is
+// 'moneyMult'. Returns the state changes, or null when maxed out or unaffordable.
+export function purchaseUpgrade(state: EngineState, track: string, stat?: string): Pick<EngineState, 'money' | 'upgradeLevels'> | null {
+    const upgradeLevels: UpgradeLevels = { ...state.upgradeLevels };
+    let level: number;
+    let weaponLevels: WeaponLevels | null = null;
+    if (track === 'moneyMult') {
+        level = upgradeLevels.moneyMult || 0;
+    } else {
+        const def = WEAPON_DEFS[track];
+        if (!def || !stat || !def.upgrades.some(u => u.stat === stat)) return null;
+        weaponLevels = levelsFor(state, track);
+        level = weaponLevels[stat];
+    }
+    const cost = upgradeCost(level);
+    if (level >= MAX_UPGRADE_LEVEL || state.money < cost) return null;
+    if (weaponLevels) upgradeLevels[track] = { ...weaponLevels, [stat!]: level + 1 };
+    else upgradeLevels.moneyMult = level + 1;
+    return { money: state.money - cost, upgradeLevels };
+}
+
+// Resets every upgrade level and refunds RESPEC_REFUND of what was spent
+export function respec(state: EngineState): Pick<EngineState, 'money' | 'upgradeLevels'> {
+    const upgradeLevels: UpgradeLevels = { ...state.upgradeLevels, moneyMult: 0 };
+    Object.values(WEAPON_DEFS).forEach(def => { upgradeLevels[def.id] = defaultWeaponLevels(def); });
+    return {
+        money: state.money + Math.floor(spentOnUpgrades(state) * RESPEC_REFUND),
+        upgradeLevels
+    };
+}
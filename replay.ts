@@ -0,0 +1,129 @@
+
+import { EngineState } from './state';
+import { GameEngine } from './index';
+import { EnginePlatform, createHeadlessPlatform } from './platform';
+import { WeaponId } from './weapons';
+
+// Input log for a story run. Ticks are fixed simulation steps, so a replay is the
+// seed, the starting state and what the player did on which tick.
+
+export type ReplayWeapon = WeaponId;
+
+export type ReplayEvent =
+    | { tick: number, type: 'aim', x: number, y: number }
+    | { tick: number, type: 'fire', weapon: ReplayWeapon, x: number, y: number }
+    | { tick: number, type: 'ability', x: number, y: number };
+
+export interface ReplayResult {
+    money: number;
+    health: number;
+    wave: number;
+    ticks: number;
+}
+
+export interface Replay {
+    version: 1;
+    seed: number;
+    level: number;
+    sidePath: boolean;
+    initialState: EngineState;
+    events: ReplayEvent[];
+    result: ReplayResult | null;
+}
+
+export class ReplayRecorder {
+    replay: Replay | null = null;
+    lastAim = { x: NaN, y: NaN };
+
+    begin(level: number, sidePath: boolean, seed: number, state: EngineState) {
+        this.replay = {
+            version: 1,
+            seed,
+            level,
+            sidePath,
+            initialState: JSON.parse(JSON.stringify({ ...state, bossStatus: null })),
+            events: [],
+            result: null
+        };
+        this.lastAim = { x: NaN, y: NaN };
+    }
+
+    // Called once per tick; only changes are kept
+    recordAim(tick: number, x: number, y: number) {
+        if (!this.replay || this.replay.result) return;
+        if (x === this.lastAim.x && y === this.lastAim.y) return;
+        this.lastAim = { x, y };
+        this.replay.events.push({ tick, type: 'aim', x, y });
+    }
+
+    recordFire(tick: number, weapon: ReplayWeapon, x: number, y: number) {
+        if (!this.replay || this.replay.result) return;
+        this.lastAim = { x, y };
+        this.replay.events.push({ tick, type: 'fire', weapon, x, y });
+    }
+
+    recordAbility(tick: number, x: number, y: number) {
+        if (!this.replay || this.replay.result) return;
+        this.lastAim = { x, y };
+        this.replay.events.push({ tick, type: 'ability', x, y });
+    }
+
+    // The engine calls this when a story run ends (wave cleared or game over);
+    // the first call fixes the result
+    finish(state: EngineState, ticks: number): Replay | null {
+        if (!this.replay) return null;
+        if (!this.replay.result) {
+            this.replay.result = { money: state.money, health: state.health, wave: state.wave, ticks };
+        }
+        return this.replay;
+    }
+}
+
+const resultOf = (engine: GameEngine): ReplayResult => ({
+    money: engine.currentState.money,
+    health: engine.currentState.health,
+    wave: engine.currentState.wave,
+    ticks: engine.tickCount
+});
+
+export function playReplay(replay: Replay, platform: EnginePlatform = createHeadlessPlatform()): ReplayResult {
+    // The engine finishes its recording the moment the run ends, which can be
+    // mid-step, so the result is taken at the same point here
+    let ended: ReplayResult | null = null;
+    const end = () => { ended = ended || resultOf(engine); };
+    const engine: GameEngine = new GameEngine(
+        null,
+        (updates) => { engine.currentState = { ...engine.currentState, ...updates }; },
+        end,
+        end,
+        replay.initialState,
+        platform
+    );
+    engine.autosave = false; // a replay must not overwrite the player's save
+    engine.startStory(replay.level, replay.sidePath, replay.seed);
+
+    const events = replay.events;
+    const ticks = replay.result ? replay.result.ticks : (events.length ? events[events.length - 1].tick + 1 : 0);
+    let next = 0;
+
+    while (!ended && engine.tickCount < ticks && engine.isRunning) {
+        while (next < events.length && events[next].tick <= engine.tickCount) {
+            const e = events[next++];
+            engine.setAim(e.x, e.y);
+            if (e.type === 'ability') engine.useAbility();
+            if (e.type === 'fire') engine.fire(e.weapon);
+        }
+        engine.step();
+    }
+
+    const result = ended || resultOf(engine);
+    engine.dispose();
+    return result;
+}
+
+export function verifyReplay(replay: Replay): boolean {
+    if (!replay.result) return false;
+    const r = playReplay(replay);
+    const e = replay.result;
+    return r.money === e.money && r.health === e.health && r.wave === e.wave && r.ticks === e.ticks;
+}
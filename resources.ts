@@ -0,0 +1,114 @@
+
+import * as THREE from 'three';
+import { EngineHost } from './platform';
+
+// Owns everything the engine allocates outside plain JS memory: GPU geometry,
+// materials and textures, other disposables (instance batches, particle pools),
+// timers and host listeners. Releasing through the tracker keeps the debug
+// counters honest, so a leak shows up as a count that only goes up.
+
+interface Disposable {
+    dispose(): void;
+}
+
+interface TrackedListener {
+    host: EngineHost;
+    type: string;
+    fn: (e: any) => void;
+}
+
+export interface ResourceCounts {
+    geometries: number;
+    materials: number;
+    textures: number;
+    disposables: number;
+    timers: number;
+    listeners: number;
+}
+
+export class ResourceTracker {
+    geometries: Set<THREE.BufferGeometry> = new Set();
+    materials: Set<THREE.Material> = new Set();
+    textures: Set<THREE.Texture> = new Set();
+    disposables: Set<Disposable> = new Set();
+    timers: Set<ReturnType<typeof setTimeout>> = new Set();
+    listeners: TrackedListener[] = [];
+
+    track<T extends Disposable>(resource: T): T {
+        const r = resource as any;
+        if (r.isBufferGeometry) this.geometries.add(r);
+        else if (r.isMaterial) this.materials.add(r);
+        else if (r.isTexture) this.textures.add(r);
+        else this.disposables.add(r);
+        return resource;
+    }
+
+    release(resource: Disposable | null | undefined) {
+        if (!resource) return;
+        const r = resource as any;
+        this.geometries.delete(r);
+        this.materials.delete(r);
+        this.textures.delete(r);
+        this.disposables.delete(r);
+        resource.dispose();
+    }
+
+    // Meshes and points own one geometry and one (or several) materials
+    trackObject<T extends THREE.Mesh | THREE.Points>(obj: T): T {
+        this.track(obj.geometry);
+        ([] as THREE.Material[]).concat(obj.material).forEach(m => this.track(m));
+        return obj;
+    }
+
+    releaseObject(obj: THREE.Mesh | THREE.Points | null) {
+        if (!obj) return;
+        obj.removeFromParent();
+        this.release(obj.geometry);
+        ([] as THREE.Material[]).concat(obj.material).forEach(m => this.release(m));
+    }
+
+    setTimeout(fn: () => void, ms: number) {
+        const handle = setTimeout(() => {
+            this.timers.delete(handle);
+            fn();
+        }, ms);
+        this.timers.add(handle);
+        return handle;
+    }
+
+    clearTimeout(handle: ReturnType<typeof setTimeout>) {
+        clearTimeout(handle);
+        this.timers.delete(handle);
+    }
+
+    listen(host: EngineHost, type: string, fn: (e: any) => void) {
+        host.addEventListener(type, fn);
+        this.listeners.push({ host, type, fn });
+    }
+
+    counts(): ResourceCounts {
+        return {
+            geometries: this.geometries.size,
+            materials: this.materials.size,
+            textures: this.textures.size,
+            disposables: this.disposables.size,
+            timers: this.timers.size,
+            listeners: this.listeners.length
+        };
+    }
+
+    disposeAll() {
+        this.timers.forEach(h => clearTimeout(h));
+        this.timers.clear();
+        this.listeners.forEach(l => l.host.removeEventListener(l.type, l.fn));
+        this.listeners = [];
+        this.disposables.forEach(d => d.dispose());
+        this.disposables.clear();
+        this.geometries.forEach(g => g.dispose());
+        this.geometries.clear();
+        this.materials.forEach(m => m.dispose());
+        this.materials.clear();
+        this.textures.forEach(t => t.dispose());
+        this.textures.clear();
+    }
+}
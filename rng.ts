@@ -0,0 +1,35 @@
+
+// Seedable PRNG (mulberry32). Gameplay rolls go through the engine's Rng so a seed
+// reproduces a run; purely visual noise (particles, starfield) keeps Math.random
+// so effect budgets can change without shifting the gameplay stream.
+
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+}
+
+export class Rng {
+    seed: number;
+    state: number;
+
+    constructor(seed: number = randomSeed()) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    // [0, 1)
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    range(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    pick<T>(items: T[]): T {
+        return items[Math.floor(this.next() * items.length)];
+    }
+}
@@ -0,0 +1,306 @@
+
+import { EngineState } from './state';
+import { EngineStorage } from './platform';
+import { WEAPON_DEFS, defaultWeaponLevels } from './weapons';
+import { CLASS_DEFS, DEFAULT_CLASS } from './classes';
+import { INPUT, defaultBindings, isInputAction } from './input';
+import { defaultAudioSettings } from './audio';
+import { TIME } from './time';
+import { DEFAULT_QUALITY, isQuality } from './postfx';
+import { defaultAccessibilitySettings, isColorVision } from './accessibility';
+
+// Persistent progress. Saves are an envelope { version, savedAt, state }; loading
+// runs every migration from the stored version up to SAVE_VERSION, fills missing
+// fields from deep defaults and reports out-of-range values instead of trusting them.
+
+export const SAVE_KEY = 'missile_fun_save';
+export const LEGACY_SAVE_KEY = 'missile_fun_standalone_v1';
+export const SAVE_VERSION = 1;
+export const MAX_UPGRADE_LEVEL = 10;
+export const AUTOSAVE_INTERVAL = 5; // seconds between background writes of pending changes
+
+// Run status the engine reports through the state but never saves
+export const UNSAVED_FIELDS = ['reloadProgress', 'reloadTimeLeft', 'bossStatus', 'selectedWeapon', 'endlessStatus', 'lastCrit', 'defense'];
+
+export interface SaveEnvelope {
+    version: number;
+    savedAt: number;
+    state: any;
+}
+
+export interface SaveIssue {
+    path: string;
+    message: string;
+}
+
+export interface LoadedSave {
+    state: EngineState;
+    issues: SaveIssue[];
+    migratedFrom: number | null; // null when already current or nothing was saved
+}
+
+export class SaveError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SaveError';
+    }
+}
+
+// Every registered weapon gets its ammo, cap and upgrade track
+const perWeapon = <T>(value: (id: string) => T) => {
+    const out: Record<string, T> = {};
+    Object.keys(WEAPON_DEFS).forEach(id => { out[id] = value(id); });
+    return out;
+};
+
+export function defaultGameState(): EngineState {
+    return {
+        money: 100,
+        health: 100,
+        wave: 1,
+        unlockedStage: 1,
+        completedSidePaths: [],
+        playerClass: DEFAULT_CLASS,
+        ammo: perWeapon(id => WEAPON_DEFS[id].startAmmo),
+        maxAmmo: perWeapon(id => WEAPON_DEFS[id].maxAmmo),
+        upgradeLevels: {
+            moneyMult: 0,
+            ...perWeapon(id => defaultWeaponLevels(WEAPON_DEFS[id]))
+        },
+        reloadProgress: perWeapon(() => 1),
+        reloadTimeLeft: perWeapon(() => 0),
+        stats: { speedMult: 1.0, radiusMult: 1.0 },
+        bindings: defaultBindings(),
+        audio: defaultAudioSettings(),
+        gameSpeed: 1,
+        quality: DEFAULT_QUALITY,
+        accessibility: defaultAccessibilitySettings(),
+        bossStatus: null
+    };
+}
+
+// Migration n upgrades a version-n state to version n+1. Version 0 is the
+// unversioned blob stored under LEGACY_SAVE_KEY.
+export const MIGRATIONS: Record<number, (state: any) => any> = {
+    0: (state) => {
+        const { reloadProgress, reloadTimeLeft, bossStatus, ...rest } = state;
+        return rest;
+    }
+};
+
+export function migrate(state: any, fromVersion: number): any {
+    let current = state;
+    for (let v = fromVersion; v < SAVE_VERSION; v++) {
+        const step = MIGRATIONS[v];
+        if (!step) throw new SaveError(`No migration from save version ${v}`);
+        current = step(current);
+    }
+    return current;
+}
+
+const isPlainObject = (v: any) => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Missing or wrongly-typed fields fall back to the default; unknown fields survive
+export function withDeepDefaults<T>(defaults: T, value: any, path: string = 'state', issues: SaveIssue[] = []): T {
+    if (value === undefined) return defaults;
+    if (defaults === null) return value;
+    if (isPlainObject(defaults)) {
+        if (!isPlainObject(value)) {
+            issues.push({ path, message: 'expected an object, using defaults' });
+            return defaults;
+        }
+        const out: any = { ...value };
+        Object.keys(defaults as any).forEach(k => {
+            out[k] = withDeepDefaults((defaults as any)[k], value[k], `${path}.${k}`, issues);
+        });
+        return out;
+    }
+    if (Array.isArray(defaults)) {
+        if (Array.isArray(value)) return value as any;
+        issues.push({ path, message: 'expected an array, using default' });
+        return defaults;
+    }
+    if (typeof value !== typeof defaults) {
+        issues.push({ path, message: `expected a ${typeof defaults}, using default` });
+        return defaults;
+    }
+    return value;
+}
+
+// Flags and clamps out-of-range values in place
+export function validateGameState(state: any, issues: SaveIssue[] = []): SaveIssue[] {
+    const clampInt = (obj: any, key: string, min: number, max: number, path: string) => {
+        const v = obj[key];
+        if (Number.isInteger(v) && v >= min && v <= max) return;
+        const fixed = Number.isFinite(v) ? Math.min(max, Math.max(min, Math.round(v))) : min;
+        issues.push({ path: `${path}.${key}`, message: `${JSON.stringify(v)} is outside ${min}..${max}, set to ${fixed}` });
+        obj[key] = fixed;
+    };
+
+    clampInt(state, 'money', 0, Number.MAX_SAFE_INTEGER, 'state');
+    clampInt(state, 'wave', 1, 1000, 'state');
+    clampInt(state, 'unlockedStage', 1, 1000, 'state');
+    if (!(typeof state.playerClass === 'string' && state.playerClass in CLASS_DEFS)) {
+        issues.push({ path: 'state.playerClass', message: `unknown class ${JSON.stringify(state.playerClass)}, set to '${DEFAULT_CLASS}'` });
+        state.playerClass = DEFAULT_CLASS;
+    }
+    const sidePaths = state.completedSidePaths.filter((v: any) => Number.isInteger(v) && v >= 0);
+    if (sidePaths.length !== state.completedSidePaths.length) {
+        issues.push({ path: 'state.completedSidePaths', message: `${state.completedSidePaths.length - sidePaths.length} invalid stage indexes dropped` });
+    }
+    state.completedSidePaths = sidePaths;
+
+    Object.keys(state.upgradeLevels).forEach(weapon => {
+        const levels = state.upgradeLevels[weapon];
+        if (weapon === 'moneyMult') { clampInt(state.upgradeLevels, 'moneyMult', 0, MAX_UPGRADE_LEVEL, 'state.upgradeLevels'); return; }
+        if (!isPlainObject(levels)) return;
+        Object.keys(levels).forEach(stat => clampInt(levels, stat, 0, MAX_UPGRADE_LEVEL, `state.upgradeLevels.${weapon}`));
+    });
+
+    Object.keys(state.maxAmmo).forEach(weapon => {
+        clampInt(state.maxAmmo, weapon, 0, 999, 'state.maxAmmo');
+        // Shop purchases may stack ammo past the regen cap
+        if (weapon in state.ammo) clampInt(state.ammo, weapon, 0, 999, 'state.ammo');
+    });
+
+    ['speedMult', 'radiusMult'].forEach(k => {
+        const v = state.stats[k];
+        if (Number.isFinite(v) && v > 0 && v <= 10) return;
+        issues.push({ path: `state.stats.${k}`, message: `${JSON.stringify(v)} is outside 0..10, set to 1` });
+        state.stats[k] = 1;
+    });
+
+    if (!(Number.isFinite(state.gameSpeed) && state.gameSpeed >= TIME.minSpeed && state.gameSpeed <= TIME.maxSpeed)) {
+        issues.push({ path: 'state.gameSpeed', message: `${JSON.stringify(state.gameSpeed)} is outside ${TIME.minSpeed}..${TIME.maxSpeed}, set to 1` });
+        state.gameSpeed = 1;
+    }
+
+    if (!isQuality(state.quality)) {
+        issues.push({ path: 'state.quality', message: `unknown preset ${JSON.stringify(state.quality)}, set to '${DEFAULT_QUALITY}'` });
+        state.quality = DEFAULT_QUALITY;
+    }
+
+    ['master', 'music', 'sfx'].forEach(k => {
+        const v = state.audio[k];
+        if (Number.isFinite(v) && v >= 0 && v <= 1) return;
+        const fixed = Number.isFinite(v) ? Math.min(1, Math.max(0, v)) : (defaultAudioSettings() as any)[k];
+        issues.push({ path: `state.audio.${k}`, message: `${JSON.stringify(v)} is outside 0..1, set to ${fixed}` });
+        state.audio[k] = fixed;
+    });
+
+    if (!isColorVision(state.accessibility.colorVision)) {
+        issues.push({ path: 'state.accessibility.colorVision', message: `unknown profile ${JSON.stringify(state.accessibility.colorVision)}, set to 'normal'` });
+        state.accessibility.colorVision = 'normal';
+    }
+    ['flashCap', 'particleMotion'].forEach(k => {
+        const v = state.accessibility[k];
+        if (Number.isFinite(v) && v >= 0 && v <= 1) return;
+        const fixed = Number.isFinite(v) ? Math.min(1, Math.max(0, v)) : 1;
+        issues.push({ path: `state.accessibility.${k}`, message: `${JSON.stringify(v)} is outside 0..1, set to ${fixed}` });
+        state.accessibility[k] = fixed;
+    });
+
+    Object.keys(state.bindings).forEach(action => {
+        if (!isInputAction(action)) {
+            issues.push({ path: `state.bindings.${action}`, message: 'unknown action, removed' });
+            delete state.bindings[action];
+            return;
+        }
+        const inputs = state.bindings[action];
+        const valid = inputs.filter((v: any) => typeof v === 'string' && v.length > 0).slice(0, INPUT.maxBindings);
+        if (valid.length !== inputs.length) issues.push({ path: `state.bindings.${action}`, message: 'invalid bindings dropped' });
+        state.bindings[action] = valid;
+    });
+    return issues;
+}
+
+function fromEnvelope(envelope: any): LoadedSave {
+    if (!isPlainObject(envelope) || !Number.isInteger(envelope.version) || !isPlainObject(envelope.state)) {
+        throw new SaveError('Not a save file');
+    }
+    if (envelope.version > SAVE_VERSION) {
+        throw new SaveError(`Save version ${envelope.version} is newer than this game (${SAVE_VERSION})`);
+    }
+    const { state, issues } = checkGameState(migrate(envelope.state, envelope.version));
+    // Runs always resume from the map with full health
+    state.health = 100;
+    state.bossStatus = null;
+    return { state, issues, migratedFrom: envelope.version < SAVE_VERSION ? envelope.version : null };
+}
+
+// Fills and validates a state a host hands over, as a loaded save would be
+export function checkGameState(value: any): LoadedSave {
+    const issues: SaveIssue[] = [];
+    const state = withDeepDefaults(defaultGameState(), JSON.parse(JSON.stringify(value)), 'state', issues);
+    validateGameState(state, issues);
+    return { state, issues, migratedFrom: null };
+}
+
+const readLegacy = (storage: EngineStorage): LoadedSave | null => {
+    const raw = storage.getItem(LEGACY_SAVE_KEY);
+    return raw ? fromEnvelope({ version: 0, savedAt: 0, state: JSON.parse(raw) }) : null;
+};
+
+// An unreadable save falls back to the legacy blob, which writeSave leaves in
+// place, and then to a new game
+export function loadSave(storage: EngineStorage): LoadedSave {
+    const raw = storage.getItem(SAVE_KEY);
+    if (!raw) {
+        try {
+            return readLegacy(storage) || { state: defaultGameState(), issues: [], migratedFrom: null };
+        } catch (e: any) {
+            return { state: defaultGameState(), issues: [{ path: 'save', message: `unreadable legacy save ignored: ${e.message}` }], migratedFrom: null };
+        }
+    }
+    try {
+        return fromEnvelope(JSON.parse(raw));
+    } catch (e: any) {
+        const issues: SaveIssue[] = [{ path: 'save', message: `unreadable save discarded: ${e.message}` }];
+        // Keep the unreadable blob so progress can still be recovered by hand
+        try {
+            storage.setItem(`${SAVE_KEY}_corrupt`, raw);
+        } catch (backupError: any) {
+            issues.push({ path: 'save', message: `could not keep a backup of it: ${backupError.message}` });
+        }
+        try {
+            const legacy = readLegacy(storage);
+            if (legacy) return { ...legacy, issues: [...issues, { path: 'save', message: 'loaded the legacy save instead' }, ...legacy.issues] };
+        } catch (legacyError) {
+            // Neither save is readable
+        }
+        return { state: defaultGameState(), issues, migratedFrom: null };
+    }
+}
+
+export function persistedFields(state: Partial<EngineState>): Partial<EngineState> {
+    const out: any = { ...state };
+    UNSAVED_FIELDS.forEach(k => delete out[k]);
+    return out;
+}
+
+function toEnvelope(state: EngineState): SaveEnvelope {
+    return { version: SAVE_VERSION, savedAt: Date.now(), state: persistedFields(state) };
+}
+
+// The legacy blob stays behind: hosts that still pass their own state may read it,
+// and loadSave falls back to it when this one can't be read
+export function writeSave(storage: EngineStorage, state: EngineState) {
+    storage.setItem(SAVE_KEY, JSON.stringify(toEnvelope(state)));
+}
+
+export function clearSave(storage: EngineStorage) {
+    storage.removeItem(SAVE_KEY);
+    storage.removeItem(LEGACY_SAVE_KEY);
+}
+
+// Portable save file for moving progress between machines
+export function exportSave(state: EngineState): string {
+    return JSON.stringify(toEnvelope(state), null, 2);
+}
+
+export function importSave(text: string): LoadedSave {
+    let envelope: any;
+    try { envelope = JSON.parse(text); }
+    catch (e: any) { throw new SaveError(`Save file is not valid JSON (${e.message})`); }
+    return fromEnvelope(envelope);
+}
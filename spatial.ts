@@ -0,0 +1,52 @@
+
+// Uniform grid broad phase over the z=0 play plane. Queries return candidates
+// from the overlapping cells; callers still do the exact distance test.
+
+export class SpatialGrid<T> {
+    cellSize: number;
+    cells: Map<number, T[]> = new Map();
+
+    constructor(cellSize: number) {
+        this.cellSize = cellSize;
+    }
+
+    key(ix: number, iy: number) {
+        return (ix + 32768) * 65536 + (iy + 32768);
+    }
+
+    clear() {
+        this.cells.clear();
+    }
+
+    insert(item: T, x: number, y: number) {
+        const k = this.key(Math.floor(x / this.cellSize), Math.floor(y / this.cellSize));
+        const cell = this.cells.get(k);
+        if (cell) cell.push(item);
+        else this.cells.set(k, [item]);
+    }
+
+    // Area items (blast zones) go into every cell their bounding box touches
+    insertCircle(item: T, x: number, y: number, radius: number) {
+        const s = this.cellSize;
+        for (let ix = Math.floor((x - radius) / s); ix <= Math.floor((x + radius) / s); ix++) {
+            for (let iy = Math.floor((y - radius) / s); iy <= Math.floor((y + radius) / s); iy++) {
+                const k = this.key(ix, iy);
+                const cell = this.cells.get(k);
+                if (cell) cell.push(item);
+                else this.cells.set(k, [item]);
+            }
+        }
+    }
+
+    // Point items only appear once, so no de-duplication is needed
+    query(x: number, y: number, radius: number, out: T[] = []): T[] {
+        const s = this.cellSize;
+        for (let ix = Math.floor((x - radius) / s); ix <= Math.floor((x + radius) / s); ix++) {
+            for (let iy = Math.floor((y - radius) / s); iy <= Math.floor((y + radius) / s); iy++) {
+                const cell = this.cells.get(this.key(ix, iy));
+                if (cell) for (let i = 0; i < cell.length; i++) out.push(cell[i]);
+            }
+        }
+        return out;
+    }
+}
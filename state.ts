@@ -0,0 +1,56 @@
+
+import { GameState } from '../types';
+import { WeaponId } from './weapons';
+import { AccessibilitySettings } from './accessibility';
+import { Quality } from './postfx';
+import { AudioSettings } from './audio';
+import { InputBindings } from './input';
+import { DefenseStatus } from './defense';
+import { EndlessStatus } from './endless';
+
+// The game state as the engine reads and writes it. GameState predates the
+// weapon and class registries and spells out three weapons and three classes;
+// here the per-weapon records are keyed by any registered weapon and the class
+// by any registered class. The engine also keeps its settings here, so they
+// save with the progress, and reports run status for the HUD through it.
+
+export type WeaponLevels = Record<string, number>; // by stat: 'dmg', 'radius', ...
+
+// moneyMult shares the object with the weapon tracks; levelsFor reads a track
+export interface UpgradeLevels {
+    moneyMult: number;
+    [weapon: WeaponId]: WeaponLevels | number;
+}
+
+export interface EngineSettings {
+    bindings: InputBindings;
+    audio: AudioSettings;
+    gameSpeed: number;
+    quality: Quality;
+    accessibility: AccessibilitySettings;
+}
+
+export interface CritInfo {
+    x: number;
+    y: number;
+    damage: number;
+    tick: number;
+}
+
+export interface EngineState extends Omit<GameState, 'playerClass' | 'ammo' | 'maxAmmo' | 'upgradeLevels' | 'reloadProgress' | 'reloadTimeLeft'>, EngineSettings {
+    playerClass: string;
+    ammo: Record<WeaponId, number>;
+    maxAmmo: Record<WeaponId, number>;
+    upgradeLevels: UpgradeLevels;
+    reloadProgress: Record<WeaponId, number>;
+    reloadTimeLeft: Record<WeaponId, number>;
+    // Run status, never saved
+    endlessStatus?: EndlessStatus | null;
+    lastCrit?: CritInfo | null;
+    defense?: DefenseStatus;
+    selectedWeapon?: WeaponId;
+}
+
+// What a host hands the engine: any GameState, with or without saved settings.
+// The engine fills the gaps from defaultGameState.
+export type InitialState = Omit<EngineState, keyof EngineSettings> & Partial<EngineSettings>;
@@ -0,0 +1,30 @@
+
+// How fast simulated time runs against real time. The simulation always steps
+// by fixedDt, so a slower scale means fewer steps per real second rather than
+// shorter steps: every timer slows together and replays stay tick-exact. The
+// scale is the player's game speed times any slow-motion effect in progress.
+
+export const TIME = {
+    minSpeed: 0.25, // slowest "slower game" setting
+    maxSpeed: 1,
+    bossKill: { scale: 0.3, duration: 1.5 }, // real seconds
+    nuke: { scale: 0.5, duration: 1.0 }
+};
+
+export interface SlowMotion {
+    scale: number;
+    duration: number;
+    timeLeft: number; // real seconds
+}
+
+// Full effect for the first half, then eases back to normal speed
+export function slowMotionFactor(slow: SlowMotion | null): number {
+    if (!slow || slow.timeLeft <= 0) return 1;
+    return 1 - (1 - slow.scale) * Math.min(1, slow.timeLeft / (slow.duration * 0.5));
+}
+
+// A new effect never weakens one already running
+export function combineSlowMotion(current: SlowMotion | null, scale: number, duration: number): SlowMotion {
+    if (current && slowMotionFactor(current) <= scale && current.timeLeft >= duration) return current;
+    return { scale: Math.min(scale, slowMotionFactor(current)), duration, timeLeft: duration };
+}
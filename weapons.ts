@@ -0,0 +1,208 @@
+
+import * as THREE from 'three';
+import { Vec3Tuple } from './enemies';
+
+// Player weapons as data. The engine builds the missile model from `parts`, and
+// reads flight speed, blast, damage, reload and hit radius from the curves
+// below at the player's upgrade level for each stat. The shop lists `upgrades`
+// and the HUD shows one slot per weapon in registry order. Which weapons a
+// player may fire and regenerate is up to their class (see classes.ts).
+
+export type WeaponId = string;
+
+export interface WeaponPart {
+    geometry: string;
+    material: string;
+    position?: Vec3Tuple;
+    rotation?: Vec3Tuple;
+    children?: WeaponPart[]; // positioned relative to this part
+}
+
+// value = base + perLevel * level, clamped to [min, max]
+export interface LevelCurve {
+    base: number;
+    perLevel: number;
+    min?: number;
+    max?: number;
+}
+
+export interface ExplosionVisual {
+    kind: 'burst' | 'nuke'; // nuke adds the expanding fireball and slow green cloud
+    palette: number[];
+    count: number;
+    countPerRadiusLevel?: number;
+    sizePerRadiusLevel?: number; // added to the spark size (1) per 'radius' level
+    maxAge: number; // seconds
+    spread: number; // spark speed as a multiple of the blast radius
+}
+
+export interface WeaponGuidance {
+    turnRate: LevelCurve; // radians/sec by 'turn' level
+    lockRange: LevelCurve; // world units by 'lock' level
+}
+
+export interface WeaponDef {
+    id: string;
+    name: string;
+    color: string; // HUD/shop accent
+    parts: WeaponPart[];
+    speed: LevelCurve; // units/sec by 'speed' level
+    activeLimit?: number; // max in flight during combat
+    siloLaunch?: boolean; // rises slowly from below the screen before flying
+    blastRadius: LevelCurve; // by 'radius' level
+    damage: LevelCurve; // by 'dmg' level
+    critPerLevel?: number; // double-damage chance per 'crit' level
+    reload: LevelCurve; // seconds per regenerated round by 'reload' level
+    hitRadius: number; // proximity fuse against enemies
+    explosion: ExplosionVisual;
+    guidance?: WeaponGuidance;
+    startAmmo: number;
+    maxAmmo: number; // regen cap
+    upgrades: { stat: string, label: string }[];
+}
+
+export const curveAt = (c: LevelCurve, level: number) =>
+    Math.min(c.max ?? Infinity, Math.max(c.min ?? -Infinity, c.base + c.perLevel * (level || 0)));
+
+const STANDARD_UPGRADES = [
+    { stat: 'dmg', label: 'Damage' },
+    { stat: 'radius', label: 'Radius' },
+    { stat: 'reload', label: 'Reload' },
+    { stat: 'speed', label: 'Speed' }
+];
+const CRIT_UPGRADES = [...STANDARD_UPGRADES, { stat: 'crit', label: 'Crit' }];
+
+const nukeFins: WeaponPart[] = [0, 1, 2, 3].map(i => ({
+    geometry: 'nukeFin',
+    material: 'nukeFins',
+    position: [Math.sin(i * Math.PI / 2) * 1.2, -4.5, Math.cos(i * Math.PI / 2) * 1.2] as Vec3Tuple,
+    rotation: [0, i * Math.PI / 2, 0] as Vec3Tuple
+}));
+
+const smallMissile = (headMaterial: string): WeaponPart[] => [
+    { geometry: 'smallBody', material: 'stdBody', rotation: [Math.PI/2, 0, 0] },
+    { geometry: 'smallHead', material: headMaterial, position: [0, 0, 1.5] },
+    { geometry: 'smallFinBox', material: 'stdDark', position: [0, 0.2, -1.3] }
+];
+
+export const WEAPON_DEFS: Record<string, WeaponDef> = {
+    normal: {
+        id: 'normal',
+        name: 'Standard',
+        color: '#4ade80',
+        parts: smallMissile('stdBody'),
+        speed: { base: 48, perLevel: 3 },
+        blastRadius: { base: 6, perLevel: 1.5 },
+        damage: { base: 2, perLevel: 1 },
+        critPerLevel: 0.05,
+        reload: { base: 1.0, perLevel: -0.08, min: 0.1 },
+        hitRadius: 4,
+        explosion: { kind: 'burst', palette: [0xf97316, 0xff8800], count: 500, countPerRadiusLevel: 100, sizePerRadiusLevel: 0.1, maxAge: 1.0, spread: 3 },
+        startAmmo: 5,
+        maxAmmo: 50,
+        upgrades: CRIT_UPGRADES
+    },
+    big: {
+        id: 'big',
+        name: 'Heavy',
+        color: '#60a5fa',
+        parts: [
+            { geometry: 'bigBody', material: 'bigBody', rotation: [Math.PI/2, 0, 0] },
+            { geometry: 'bigNose', material: 'bigGlass', position: [0, 0, 1.75], rotation: [Math.PI/2, 0, 0] }
+        ],
+        speed: { base: 36, perLevel: 3 },
+        activeLimit: 5,
+        blastRadius: { base: 18, perLevel: 3 },
+        damage: { base: 12, perLevel: 3 },
+        critPerLevel: 0.05,
+        reload: { base: 5.0, perLevel: -0.4, min: 0.5 },
+        hitRadius: 6,
+        explosion: { kind: 'burst', palette: [0x2563eb, 0x60a5fa], count: 500, countPerRadiusLevel: 100, sizePerRadiusLevel: 0.1, maxAge: 1.0, spread: 3 },
+        startAmmo: 0,
+        maxAmmo: 30,
+        upgrades: CRIT_UPGRADES
+    },
+    nuke: {
+        id: 'nuke',
+        name: 'Nuke',
+        color: '#facc15',
+        parts: [{
+            geometry: 'nukeMain', material: 'nukeBody', rotation: [Math.PI/2, 0, 0],
+            children: [
+                { geometry: 'nukeNose', material: 'nukeBody', position: [0, 4.75, 0] },
+                { geometry: 'nukeTail', material: 'nukeBody', position: [0, -4.25, 0] },
+                ...nukeFins
+            ]
+        }],
+        speed: { base: 24, perLevel: 3 },
+        activeLimit: 1,
+        siloLaunch: true,
+        blastRadius: { base: 60, perLevel: 10 },
+        damage: { base: 100, perLevel: 20 },
+        reload: { base: 20.0, perLevel: -1.0, min: 5.0 },
+        hitRadius: 8,
+        explosion: { kind: 'nuke', palette: [0x00ff00, 0x33ff33, 0x008800, 0xccffcc], count: 5000, maxAge: 2.0, spread: 1.8 },
+        startAmmo: 0,
+        maxAmmo: 5,
+        upgrades: STANDARD_UPGRADES
+    },
+    // Locks onto whatever is under the cursor at launch and steers towards it
+    guided: {
+        id: 'guided',
+        name: 'Guided',
+        color: '#22d3ee',
+        parts: smallMissile('guidedHead'),
+        speed: { base: 30, perLevel: 2.5 },
+        activeLimit: 8,
+        blastRadius: { base: 5, perLevel: 1 },
+        damage: { base: 4, perLevel: 1.5 },
+        critPerLevel: 0.05,
+        reload: { base: 3.0, perLevel: -0.2, min: 1.0 },
+        hitRadius: 4,
+        explosion: { kind: 'burst', palette: [0x22d3ee, 0xa5f3fc], count: 500, countPerRadiusLevel: 100, sizePerRadiusLevel: 0.1, maxAge: 1.0, spread: 3 },
+        guidance: {
+            turnRate: { base: 1.6, perLevel: 0.4 },
+            lockRange: { base: 8, perLevel: 1.5 }
+        },
+        startAmmo: 0,
+        maxAmmo: 10,
+        upgrades: [
+            ...CRIT_UPGRADES,
+            { stat: 'turn', label: 'Turn Rate' },
+            { stat: 'lock', label: 'Lock Range' }
+        ]
+    }
+};
+
+export function registerWeapon(def: WeaponDef) {
+    WEAPON_DEFS[def.id] = def;
+}
+
+// Every stat a weapon's level track carries. Saves have always stored a crit
+// level on every weapon, so the track keeps one even where the shop has no row
+export function weaponStats(def: WeaponDef): string[] {
+    const stats = def.upgrades.map(u => u.stat);
+    return stats.includes('crit') ? stats : [...stats, 'crit'];
+}
+
+export function defaultWeaponLevels(def: WeaponDef): Record<string, number> {
+    const levels: Record<string, number> = {};
+    weaponStats(def).forEach(stat => { levels[stat] = 0; });
+    return levels;
+}
+
+// Shop price of the next level of any weapon stat
+export const upgradeCost = (level: number) => Math.floor(100 * Math.pow(1.5, level));
+
+// Rotates velocity (in the z=0 plane) towards `to` by at most maxTurn radians
+export function steerTowards(velocity: THREE.Vector3, from: THREE.Vector3, to: THREE.Vector3, maxTurn: number) {
+    const current = Math.atan2(velocity.y, velocity.x);
+    const desired = Math.atan2(to.y - from.y, to.x - from.x);
+    let delta = desired - current;
+    while (delta > Math.PI) delta -= Math.PI * 2;
+    while (delta < -Math.PI) delta += Math.PI * 2;
+    const angle = current + THREE.MathUtils.clamp(delta, -maxTurn, maxTurn);
+    const speed = Math.hypot(velocity.x, velocity.y);
+    velocity.set(Math.cos(angle) * speed, Math.sin(angle) * speed, 0);
+    return velocity;
+}